@@ -13,6 +13,7 @@ const sidebars: SidebarsConfig = {
         'guides/env-vars',
         'guides/schema-validation',
         'guides/aliases-and-sub',
+        'guides/remote-config',
       ],
     },
     {
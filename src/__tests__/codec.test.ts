@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { CodecRegistry, globalCodecs } from '../codec'
+
+function lineCodec(sep: string) {
+  return {
+    parse: (raw: string) => Object.fromEntries(
+      raw.split('\n').filter(Boolean).map(line => line.split(sep)),
+    ),
+    stringify: (settings: Record<string, unknown>) =>
+      Object.entries(settings).map(([k, v]) => `${k}${sep}${v}\n`).join(''),
+  }
+}
+
+describe('codecRegistry', () => {
+  it('looks up codecs by name', () => {
+    const codecs = new CodecRegistry()
+    const codec = lineCodec('=')
+    codecs.register('ini', codec)
+    expect(codecs.get('ini')).toBe(codec)
+    expect(codecs.get('INI')).toBe(codec)
+  })
+
+  it('looks up codecs by extension', () => {
+    const codecs = new CodecRegistry()
+    const codec = { ...lineCodec('='), extensions: ['ini', '.cfg'] }
+    codecs.register('ini', codec)
+    expect(codecs.get('cfg')).toBe(codec)
+  })
+
+  it('falls back to the parent registry', () => {
+    const codecs = new CodecRegistry(globalCodecs)
+    expect(codecs.get('yml')).toBe(globalCodecs.get('yaml'))
+  })
+
+  it('own codecs shadow the parent', () => {
+    const codecs = new CodecRegistry(globalCodecs)
+    const codec = lineCodec(':')
+    codecs.register('yaml', codec)
+    expect(codecs.get('yaml')).toBe(codec)
+    expect(globalCodecs.get('yaml')).not.toBe(codec)
+  })
+
+  it('resolve throws for unknown types', () => {
+    const codecs = new CodecRegistry()
+    expect(() => codecs.resolve('ini')).toThrow('unsupported config type: ini')
+  })
+
+  it('lists extensions with the parent first', () => {
+    const codecs = new CodecRegistry(globalCodecs)
+    codecs.register('ini', lineCodec('='))
+    expect(codecs.extensions()).toEqual(['json5', 'json', 'yaml', 'yml', 'toml', 'ini'])
+  })
+
+  it('typeFor prefers a known extension over the fallback', () => {
+    const codecs = new CodecRegistry(globalCodecs)
+    expect(codecs.typeFor('/etc/app/config.toml', 'json5')).toBe('toml')
+    expect(codecs.typeFor('/etc/app/config.conf', 'yaml')).toBe('yaml')
+    expect(codecs.typeFor('/etc/app/config', 'json5')).toBe('json5')
+  })
+})
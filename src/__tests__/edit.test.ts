@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest'
+import { updateJson5Source } from '../edit'
+
+describe('updateJson5Source', () => {
+  const source = `{
+  // Server settings
+  host: 'localhost', // bind address
+  port: 3000,
+
+  /* database */
+  "Database": {
+    "host": "db.local",
+    "port": 5432,
+  },
+  features: ['auth', 'logging'],
+}
+`
+
+  it('returns the source unchanged when nothing changed', () => {
+    const next = {
+      host: 'localhost',
+      port: 3000,
+      database: { host: 'db.local', port: 5432 },
+      features: ['auth', 'logging'],
+    }
+    expect(updateJson5Source(source, next)).toBe(source)
+  })
+
+  it('replaces changed values and keeps comments and quoting', () => {
+    const next = {
+      host: '0.0.0.0',
+      port: 8080,
+      database: { host: 'db.prod', port: 5432 },
+      features: ['auth', 'logging'],
+    }
+    expect(updateJson5Source(source, next)).toBe(`{
+  // Server settings
+  host: '0.0.0.0', // bind address
+  port: 8080,
+
+  /* database */
+  "Database": {
+    "host": "db.prod",
+    "port": 5432,
+  },
+  features: ['auth', 'logging'],
+}
+`)
+  })
+
+  it('appends new keys in the style of their siblings', () => {
+    const next = {
+      host: 'localhost',
+      port: 3000,
+      database: { host: 'db.local', port: 5432, pool: { max: 10 } },
+      features: ['auth', 'logging'],
+      debug: true,
+    }
+    expect(updateJson5Source(source, next)).toBe(`{
+  // Server settings
+  host: 'localhost', // bind address
+  port: 3000,
+
+  /* database */
+  "Database": {
+    "host": "db.local",
+    "port": 5432,
+    "pool": {
+      max: 10,
+    },
+  },
+  features: ['auth', 'logging'],
+  debug: true,
+}
+`)
+  })
+
+  it('removes deleted keys with their line comments', () => {
+    const next = {
+      port: 3000,
+      database: { host: 'db.local', port: 5432 },
+    }
+    expect(updateJson5Source(source, next)).toBe(`{
+  // Server settings
+  port: 3000,
+
+  /* database */
+  "Database": {
+    "host": "db.local",
+    "port": 5432,
+  },
+}
+`)
+  })
+
+  it('patches single array entries in place', () => {
+    const src = '{\n  servers: [\n    { name: "a", port: 1 }, // first\n    { name: "b", port: 2 },\n  ],\n}\n'
+    const next = { servers: [{ name: 'a', port: 1 }, { name: 'b', port: 3 }] }
+    expect(updateJson5Source(src, next)).toBe('{\n  servers: [\n    { name: "a", port: 1 }, // first\n    { name: "b", port: 3 },\n  ],\n}\n')
+  })
+
+  it('replaces arrays whose length changed', () => {
+    const src = '{ tags: ["a"] }'
+    expect(updateJson5Source(src, { tags: ['a', 'b'] })).toBe('{ tags: ["a", "b"] }')
+  })
+
+  it('edits single-line objects inline', () => {
+    expect(updateJson5Source('{ a: 1, b: 2 }', { a: 1, c: 3 })).toBe('{ a: 1, c: 3 }')
+  })
+
+  it('adds a separating comma after a last member without one', () => {
+    const src = '{\n  a: 1 // note\n}\n'
+    expect(updateJson5Source(src, { a: 1, b: 2 })).toBe('{\n  a: 1, // note\n  b: 2\n}\n')
+  })
+
+  it('drops the separator left behind by a removed last member', () => {
+    const src = '{\n  a: 1,\n  b: 2\n}\n'
+    expect(updateJson5Source(src, { a: 1 })).toBe('{\n  a: 1\n}\n')
+  })
+
+  it('rewrites objects that lose all their members', () => {
+    const src = '{\n  db: { host: "x" },\n  keep: 1,\n}\n'
+    expect(updateJson5Source(src, { db: { port: 1 }, keep: 1 })).toBe('{\n  db: { port: 1 },\n  keep: 1,\n}\n')
+  })
+
+  it('emits strict JSON in json mode', () => {
+    const src = '{\n  "a": 1\n}\n'
+    expect(updateJson5Source(src, { a: 2, b: { c: 'x' } }, { json: true }))
+      .toBe('{\n  "a": 2,\n  "b": {\n    "c": "x"\n  }\n}\n')
+  })
+
+  it('preserves CRLF line endings', () => {
+    const src = '{\r\n  a: 1,\r\n}\r\n'
+    expect(updateJson5Source(src, { a: 1, b: 2 })).toBe('{\r\n  a: 1,\r\n  b: 2,\r\n}\r\n')
+  })
+
+  it('throws for non-object sources', () => {
+    expect(() => updateJson5Source('[1]', {})).toThrow('must contain an object')
+  })
+
+  it('throws for invalid sources', () => {
+    expect(() => updateJson5Source('{ a: }', { a: 1 })).toThrow()
+  })
+})
@@ -1,5 +1,5 @@
 import { afterEach, beforeEach, describe, expect, it } from 'vitest'
-import { resolveEnvKey } from '../env'
+import { parseDotenv, resolveEnvKey } from '../env'
 
 describe('resolveEnvKey', () => {
   const originalEnv = { ...process.env }
@@ -65,6 +65,11 @@ describe('resolveEnvKey', () => {
       expect(resolveEnvKey('db.host', 'APP', new Map(), true)).toBe('myhost')
     })
 
+    it('reads from the given env instead of process.env', () => {
+      process.env.A_B = 'live'
+      expect(resolveEnvKey('a.b', '', new Map(), true, {}, { A_B: 'snapshot' })).toBe('snapshot')
+    })
+
     it('replaces dots with underscores', () => {
       process.env.A_B_C = 'val'
       expect(resolveEnvKey('a.b.c', '', new Map(), true)).toBe('val')
@@ -122,4 +127,69 @@ describe('resolveEnvKey', () => {
       expect(resolveEnvKey('host', 'APP', new Map(), true)).toBe('simple')
     })
   })
+
+  describe('file env', () => {
+    it('resolves from file env when the real env var is unset', () => {
+      const bindings = new Map([['key', ['FILE_ONLY']]])
+      expect(resolveEnvKey('key', '', bindings, false, { FILE_ONLY: 'from-file' })).toBe('from-file')
+    })
+
+    it('prefers the real env var over file env', () => {
+      process.env.APP_HOST = 'real'
+      expect(resolveEnvKey('host', 'APP', new Map(), true, { APP_HOST: 'file' })).toBe('real')
+    })
+
+    it('ignores inherited object properties', () => {
+      expect(resolveEnvKey('constructor', '', new Map(), true, {})).toBeUndefined()
+    })
+  })
+})
+
+describe('parseDotenv', () => {
+  it('parses simple assignments', () => {
+    expect(parseDotenv('A=1\nB = two\n')).toEqual({ A: '1', B: 'two' })
+  })
+
+  it('skips comments and blank lines', () => {
+    expect(parseDotenv('# comment\n\nA=1\n  # indented comment\n')).toEqual({ A: '1' })
+  })
+
+  it('strips inline comments from unquoted values', () => {
+    expect(parseDotenv('A=value # trailing\nB=no#comment\n')).toEqual({ A: 'value', B: 'no#comment' })
+  })
+
+  it('accepts the export prefix', () => {
+    expect(parseDotenv('export A=1\n')).toEqual({ A: '1' })
+  })
+
+  it('keeps single-quoted values literally', () => {
+    expect(parseDotenv(`A='x # y \\n'\n`)).toEqual({ A: 'x # y \\n' })
+  })
+
+  it('expands escapes in double-quoted values', () => {
+    expect(parseDotenv('A="line1\\nline2 \\"q\\""\n')).toEqual({ A: 'line1\nline2 "q"' })
+  })
+
+  it('supports multiline quoted values', () => {
+    const raw = 'KEY="-----BEGIN-----\nabc\n-----END-----"\nNEXT=1\n'
+    expect(parseDotenv(raw)).toEqual({ KEY: '-----BEGIN-----\nabc\n-----END-----', NEXT: '1' })
+  })
+
+  it('keeps values with an unterminated quote as written', () => {
+    expect(parseDotenv('A="abc\nB=1\n')).toEqual({ A: '"abc', B: '1' })
+    expect(parseDotenv('A=\'abc\n')).toEqual({ A: '\'abc' })
+    expect(parseDotenv('A="\n')).toEqual({ A: '"' })
+  })
+
+  it('handles CRLF line endings', () => {
+    expect(parseDotenv('A=1\r\nB=2\r\n')).toEqual({ A: '1', B: '2' })
+  })
+
+  it('allows empty values', () => {
+    expect(parseDotenv('A=\nB=""\n')).toEqual({ A: '', B: '' })
+  })
+
+  it('later assignments win', () => {
+    expect(parseDotenv('A=1\nA=2\n')).toEqual({ A: '2' })
+  })
 })
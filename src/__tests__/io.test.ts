@@ -1,8 +1,24 @@
+import { Buffer } from 'node:buffer'
 import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
 import { tmpdir } from 'node:os'
-import { join } from 'node:path'
+import { join, parse } from 'node:path'
+import { Readable } from 'node:stream'
 import { afterEach, beforeEach, describe, expect, it } from 'vitest'
-import { atomicWriteFile, findConfigFile, readConfigFile } from '../io'
+import {
+  ancestorDirs,
+  ancestorDirsAsync,
+  atomicWriteFile,
+  findConfigFile,
+  findConfigFileAsync,
+  findConfigFragments,
+  findConfigFragmentsAsync,
+  readConfigFile,
+  readConfigFileAsync,
+  readConfigSource,
+  readConfigTree,
+  readConfigTreeAsync,
+  stringifyConfig,
+} from '../io'
 
 function makeTmpDir(): string {
   const dir = join(tmpdir(), `viper-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
@@ -62,6 +78,106 @@ describe('findConfigFile', () => {
     writeFileSync(join(dir, 'settings.json5'), '{}')
     expect(findConfigFile('config', 'json5', [dir])).toBeUndefined()
   })
+
+  it('tries every extension in a list', () => {
+    writeFileSync(join(dir, 'config.toml'), '')
+    expect(findConfigFile('config', ['json5', 'yaml', 'toml'], [dir])).toBe(join(dir, 'config.toml'))
+  })
+
+  it('prefers earlier directories over extension priority', () => {
+    const dir2 = `${dir}-2`
+    mkdirSync(dir2, { recursive: true })
+    writeFileSync(join(dir, 'config.toml'), '')
+    writeFileSync(join(dir2, 'config.json5'), '{}')
+    expect(findConfigFile('config', ['json5', 'toml'], [dir, dir2])).toBe(join(dir, 'config.toml'))
+    rmSync(dir2, { recursive: true, force: true })
+  })
+
+  it('resolves extensions of the same format by priority', () => {
+    writeFileSync(join(dir, 'config.yml'), '')
+    writeFileSync(join(dir, 'config.yaml'), '')
+    expect(findConfigFile('config', ['yaml', 'yml'], [dir])).toBe(join(dir, 'config.yaml'))
+  })
+
+  it('throws when different formats exist in the same directory', () => {
+    writeFileSync(join(dir, 'config.json5'), '{}')
+    writeFileSync(join(dir, 'config.yaml'), '')
+    expect(() => findConfigFile('config', ['json5', 'yaml'], [dir])).toThrow('ambiguous config file')
+  })
+})
+
+describe('ancestorDirs', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = makeTmpDir()
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('walks up to the filesystem root, nearest first', () => {
+    const leaf = join(dir, 'a', 'b')
+    mkdirSync(leaf, { recursive: true })
+    const dirs = ancestorDirs(leaf)
+    expect(dirs.slice(0, 3)).toEqual([leaf, join(dir, 'a'), dir])
+    expect(dirs.at(-1)).toBe(parse(leaf).root)
+  })
+
+  it('stops at the first directory containing a marker', () => {
+    const leaf = join(dir, 'repo', 'pkg')
+    mkdirSync(join(dir, 'repo', '.git'), { recursive: true })
+    mkdirSync(leaf, { recursive: true })
+    expect(ancestorDirs(leaf, ['.git'])).toEqual([leaf, join(dir, 'repo')])
+  })
+
+  it('async variant matches the sync one', async () => {
+    const leaf = join(dir, 'repo', 'pkg')
+    mkdirSync(join(dir, 'repo', '.git'), { recursive: true })
+    mkdirSync(leaf, { recursive: true })
+    expect(await ancestorDirsAsync(leaf, ['.git'])).toEqual(ancestorDirs(leaf, ['.git']))
+  })
+})
+
+describe('findConfigFragments', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = makeTmpDir()
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('lists matching files in lexical order', () => {
+    writeFileSync(join(dir, '20-db.json5'), '{}')
+    writeFileSync(join(dir, '10-base.yaml'), '')
+    writeFileSync(join(dir, 'README.md'), '')
+    expect(findConfigFragments(dir, ['json5', 'yaml'])).toEqual([
+      join(dir, '10-base.yaml'),
+      join(dir, '20-db.json5'),
+    ])
+  })
+
+  it('skips hidden files and directories', () => {
+    writeFileSync(join(dir, '.10-swap.json5'), '{}')
+    mkdirSync(join(dir, 'nested.json5'))
+    writeFileSync(join(dir, '20-db.json5'), '{}')
+    expect(findConfigFragments(dir, ['json5'])).toEqual([join(dir, '20-db.json5')])
+  })
+
+  it('returns an empty list for a missing directory', () => {
+    expect(findConfigFragments(join(dir, 'missing'), ['json5'])).toEqual([])
+  })
+
+  it('async variant matches the sync one', async () => {
+    writeFileSync(join(dir, 'b.toml'), '')
+    writeFileSync(join(dir, 'a.toml'), '')
+    expect(await findConfigFragmentsAsync(dir, ['toml'])).toEqual(findConfigFragments(dir, ['toml']))
+    expect(await findConfigFragmentsAsync(join(dir, 'missing'), ['toml'])).toEqual([])
+  })
 })
 
 describe('readConfigFile', () => {
@@ -156,6 +272,76 @@ describe('readConfigFile', () => {
     writeFileSync(file, '{}')
     expect(readConfigFile(file)).toEqual({})
   })
+
+  it('parses YAML by file extension', () => {
+    const file = join(dir, 'test.yaml')
+    writeFileSync(file, 'db:\n  host: localhost\n  port: 5432\ntags:\n  - a\n  - b\n')
+    expect(readConfigFile(file)).toEqual({ db: { host: 'localhost', port: 5432 }, tags: ['a', 'b'] })
+  })
+
+  it('parses .yml files as YAML', () => {
+    const file = join(dir, 'test.yml')
+    writeFileSync(file, '# comment\nkey: value\n')
+    expect(readConfigFile(file)).toEqual({ key: 'value' })
+  })
+
+  it('uses the given type when the extension is not recognized', () => {
+    const file = join(dir, 'test.conf')
+    writeFileSync(file, 'key: value\n')
+    expect(readConfigFile(file, 'yaml')).toEqual({ key: 'value' })
+  })
+
+  it('throws for YAML scalar content', () => {
+    const file = join(dir, 'test.yaml')
+    writeFileSync(file, 'just a string\n')
+    expect(() => readConfigFile(file)).toThrow('must contain a JSON object')
+  })
+
+  it('parses TOML tables and arrays of tables', () => {
+    const file = join(dir, 'test.toml')
+    writeFileSync(file, [
+      'title = "app"',
+      '',
+      '[database]',
+      'host = "localhost"',
+      'ports = [5432, 5433]',
+      '',
+      '[[servers]]',
+      'name = "alpha"',
+      '',
+      '[[servers]]',
+      'name = "beta"',
+      '',
+    ].join('\n'))
+    expect(readConfigFile(file)).toEqual({
+      title: 'app',
+      database: { host: 'localhost', ports: [5432, 5433] },
+      servers: [{ name: 'alpha' }, { name: 'beta' }],
+    })
+  })
+
+  it('maps TOML datetimes to Dates and keeps local temporals as TOML dates', () => {
+    const file = join(dir, 'test.toml')
+    writeFileSync(file, [
+      'odt = 1979-05-27T07:32:00Z',
+      'ldt = 1979-05-27T07:32:00',
+      'ld = 1979-05-27',
+      'lt = 07:32:00',
+      '',
+    ].join('\n'))
+    const parsed = readConfigFile(file)
+    expect(parsed.odt).toBeInstanceOf(Date)
+    expect((parsed.odt as Date).toISOString()).toBe('1979-05-27T07:32:00.000Z')
+    expect((parsed.ldt as Date).toISOString()).toBe('1979-05-27T07:32:00.000')
+    expect((parsed.ld as Date).toISOString()).toBe('1979-05-27')
+    expect((parsed.lt as Date).toISOString()).toBe('07:32:00.000')
+  })
+
+  it('throws for unsupported config type', () => {
+    const file = join(dir, 'test.conf')
+    writeFileSync(file, 'key = value')
+    expect(() => readConfigFile(file, 'ini')).toThrow('unsupported config type')
+  })
 })
 
 describe('atomicWriteFile', () => {
@@ -245,3 +431,162 @@ describe('atomicWriteFile', () => {
     expect(parsed.emoji).toBe('🎉')
   })
 })
+
+describe('readConfigTree', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = makeTmpDir()
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('returns a file without directives as a single part', () => {
+    writeFileSync(join(dir, 'config.json5'), '{ a: 1 }')
+    expect(readConfigTree(join(dir, 'config.json5'))).toEqual([
+      { data: { a: 1 }, origin: join(dir, 'config.json5'), directives: false },
+    ])
+  })
+
+  it('orders extended files first and included files last', () => {
+    mkdirSync(join(dir, 'shared'))
+    writeFileSync(join(dir, 'shared', 'base.json5'), '{ a: 0 }')
+    writeFileSync(join(dir, 'db.yaml'), 'db: 1\n')
+    writeFileSync(join(dir, 'config.json5'), '{ $extends: "./shared/base.json5", $include: ["db.yaml"], a: 1 }')
+    expect(readConfigTree(join(dir, 'config.json5'))).toEqual([
+      { data: { a: 0 }, origin: join(dir, 'shared', 'base.json5'), directives: false },
+      { data: { a: 1 }, origin: join(dir, 'config.json5'), directives: true },
+      { data: { db: 1 }, origin: join(dir, 'db.yaml'), directives: false },
+    ])
+  })
+
+  it('resolves nested paths relative to the including file', () => {
+    mkdirSync(join(dir, 'a'))
+    writeFileSync(join(dir, 'a', 'base.json5'), '{ $extends: "../root.json5", b: 1 }')
+    writeFileSync(join(dir, 'root.json5'), '{ r: 1 }')
+    writeFileSync(join(dir, 'config.json5'), '{ $extends: "a/base.json5" }')
+    expect(readConfigTree(join(dir, 'config.json5')).map(part => part.origin)).toEqual([
+      join(dir, 'root.json5'),
+      join(dir, 'a', 'base.json5'),
+      join(dir, 'config.json5'),
+    ])
+  })
+
+  it('detects include cycles', () => {
+    writeFileSync(join(dir, 'a.json5'), '{ $include: "b.json5" }')
+    writeFileSync(join(dir, 'b.json5'), '{ $extends: "a.json5" }')
+    expect(() => readConfigTree(join(dir, 'a.json5'))).toThrow(
+      `config include cycle: ${join(dir, 'a.json5')} -> ${join(dir, 'b.json5')} -> ${join(dir, 'a.json5')}`,
+    )
+  })
+
+  it('allows the same file through two branches', () => {
+    writeFileSync(join(dir, 'common.json5'), '{ c: 1 }')
+    writeFileSync(join(dir, 'x.json5'), '{ $extends: "common.json5" }')
+    writeFileSync(join(dir, 'config.json5'), '{ $extends: ["common.json5", "x.json5"] }')
+    expect(readConfigTree(join(dir, 'config.json5'))).toHaveLength(4)
+  })
+
+  it('rejects directives that are not paths', () => {
+    writeFileSync(join(dir, 'config.json5'), '{ $include: [1] }')
+    expect(() => readConfigTree(join(dir, 'config.json5'))).toThrow('$include must be a path or a list of paths')
+  })
+
+  it('async variant matches the sync one', async () => {
+    writeFileSync(join(dir, 'base.json5'), '{ a: 0 }')
+    writeFileSync(join(dir, 'extra.json5'), '{ b: 2 }')
+    writeFileSync(join(dir, 'config.json5'), '{ $extends: "base.json5", $include: "extra.json5", a: 1 }')
+    expect(await readConfigTreeAsync(join(dir, 'config.json5'))).toEqual(readConfigTree(join(dir, 'config.json5')))
+    writeFileSync(join(dir, 'base.json5'), '{ $extends: "config.json5" }')
+    await expect(readConfigTreeAsync(join(dir, 'config.json5'))).rejects.toThrow('config include cycle')
+  })
+})
+
+describe('async file helpers', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = makeTmpDir()
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('findConfigFileAsync searches paths and extensions in order', async () => {
+    writeFileSync(join(dir, 'config.yaml'), '')
+    expect(await findConfigFileAsync('config', ['json5', 'yaml'], ['/nonexistent/path', dir])).toBe(join(dir, 'config.yaml'))
+  })
+
+  it('findConfigFileAsync returns undefined when not found', async () => {
+    expect(await findConfigFileAsync('config', 'json5', [dir])).toBeUndefined()
+  })
+
+  it('findConfigFileAsync throws on ambiguous candidates', async () => {
+    writeFileSync(join(dir, 'config.json5'), '{}')
+    writeFileSync(join(dir, 'config.toml'), '')
+    await expect(findConfigFileAsync('config', ['json5', 'toml'], [dir])).rejects.toThrow('ambiguous config file')
+  })
+
+  it('readConfigFileAsync parses by extension', async () => {
+    const file = join(dir, 'test.toml')
+    writeFileSync(file, 'key = "value"\n')
+    expect(await readConfigFileAsync(file)).toEqual({ key: 'value' })
+  })
+
+  it('readConfigFileAsync rejects non-object content', async () => {
+    const file = join(dir, 'test.json5')
+    writeFileSync(file, '[1]')
+    await expect(readConfigFileAsync(file)).rejects.toThrow('must contain a JSON object')
+  })
+})
+
+describe('readConfigSource', () => {
+  it('parses a string', async () => {
+    expect(await readConfigSource('{ key: "value" }')).toEqual({ key: 'value' })
+  })
+
+  it('parses a buffer', async () => {
+    expect(await readConfigSource(Buffer.from('key: value\n'), 'yaml')).toEqual({ key: 'value' })
+  })
+
+  it('parses a readable stream', async () => {
+    const stream = Readable.from([Buffer.from('[db]\nport'), Buffer.from(' = 5432\n')])
+    expect(await readConfigSource(stream, 'toml')).toEqual({ db: { port: 5432 } })
+  })
+
+  it('decodes multi-byte characters split across chunks', async () => {
+    const bytes = Buffer.from('{ name: "中文" }')
+    const stream = Readable.from([bytes.subarray(0, 11), bytes.subarray(11)])
+    expect(await readConfigSource(stream)).toEqual({ name: '中文' })
+  })
+
+  it('throws for non-object content', async () => {
+    await expect(readConfigSource('[1, 2]')).rejects.toThrow('must contain a JSON object')
+  })
+})
+
+describe('stringifyConfig', () => {
+  it('serializes JSON5 with a trailing newline', () => {
+    expect(stringifyConfig({ key: 'value' }, 'json5')).toBe('{\n  key: \'value\',\n}\n')
+  })
+
+  it('serializes strict JSON', () => {
+    expect(stringifyConfig({ key: 'value' }, 'json')).toBe('{\n  "key": "value"\n}\n')
+  })
+
+  it('serializes YAML', () => {
+    expect(stringifyConfig({ db: { port: 5432 } }, 'yaml')).toBe('db:\n  port: 5432\n')
+  })
+
+  it('serializes TOML tables and arrays of tables', () => {
+    expect(stringifyConfig({ name: 'app', db: { port: 5432 }, servers: [{ name: 'a' }] }, 'toml'))
+      .toBe('name = "app"\n\n[db]\nport = 5432\n\n[[servers]]\nname = "a"\n')
+  })
+
+  it('throws for unsupported config type', () => {
+    expect(() => stringifyConfig({}, 'ini')).toThrow('unsupported config type')
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { deepDelete, deepGet, deepSet, flattenKeys, splitKey } from '../keys'
+import { copyTree, deepDelete, deepGet, deepSet, flattenKeys, isDeepEqual, isPlainObject, splitKey } from '../keys'
 
 describe('splitKey', () => {
   it('splits a dotted key', () => {
@@ -247,3 +247,56 @@ describe('flattenKeys', () => {
     expect(result).toEqual(['a.b.c'])
   })
 })
+
+describe('isPlainObject', () => {
+  it('accepts object literals and null-prototype objects', () => {
+    expect(isPlainObject({ a: 1 })).toBe(true)
+    expect(isPlainObject(Object.create(null))).toBe(true)
+  })
+
+  it('rejects arrays, dates, null and primitives', () => {
+    expect(isPlainObject([])).toBe(false)
+    expect(isPlainObject(new Date())).toBe(false)
+    expect(isPlainObject(null)).toBe(false)
+    expect(isPlainObject('x')).toBe(false)
+  })
+})
+
+describe('isDeepEqual', () => {
+  it('compares nested objects and arrays structurally', () => {
+    expect(isDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true)
+    expect(isDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false)
+  })
+
+  it('treats missing and extra keys as different', () => {
+    expect(isDeepEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false)
+  })
+
+  it('compares dates by time', () => {
+    expect(isDeepEqual(new Date(0), new Date(0))).toBe(true)
+    expect(isDeepEqual(new Date(0), new Date(1))).toBe(false)
+  })
+
+  it('treats NaN as equal to itself', () => {
+    expect(isDeepEqual(Number.NaN, Number.NaN)).toBe(true)
+  })
+})
+
+describe('copyTree', () => {
+  it('copies plain objects and arrays', () => {
+    const source = { a: [1, { b: 2 }] }
+    const copy = copyTree(source) as typeof source
+    expect(copy).toEqual(source)
+    expect(copy).not.toBe(source)
+    expect(copy.a).not.toBe(source.a)
+    expect(copy.a[1]).not.toBe(source.a[1])
+  })
+
+  it('keeps functions and class instances by reference', () => {
+    const fn = (): void => {}
+    const date = new Date(0)
+    const copy = copyTree({ fn, date }) as { fn: () => void, date: Date }
+    expect(copy.fn).toBe(fn)
+    expect(copy.date).toBe(date)
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { deepMerge } from '../merge'
+import { deepMerge, mergeArrays, omitEqual } from '../merge'
 
 describe('deepMerge', () => {
   it('merges flat objects', () => {
@@ -32,6 +32,13 @@ describe('deepMerge', () => {
     expect(deepMerge({ a: { b: 1 } }, { a: 42 })).toEqual({ a: 42 })
   })
 
+  it('copies nested objects instead of sharing them', () => {
+    const source = { a: { b: { c: 1 } } }
+    const merged = deepMerge({}, source)
+    expect(merged).toEqual(source)
+    expect(merged.a).not.toBe(source.a)
+  })
+
   it('null in source deletes key (RFC 7386)', () => {
     expect(deepMerge({ a: 1, b: 2 }, { a: null })).toEqual({ b: 2 })
   })
@@ -100,3 +107,72 @@ describe('deepMerge', () => {
     expect(deepMerge(target, source)).toEqual({ a: 1, b: 20, c: 3, d: 40 })
   })
 })
+
+describe('array merge strategies', () => {
+  const target = { plugins: ['a', 'b'], servers: [{ name: 'x', port: 1 }, { name: 'y', port: 2 }] }
+
+  it('replaces arrays by default', () => {
+    expect(deepMerge(target, { plugins: ['c'] }).plugins).toEqual(['c'])
+  })
+
+  it('appends and prepends', () => {
+    expect(deepMerge(target, { plugins: ['c'] }, () => 'append').plugins).toEqual(['a', 'b', 'c'])
+    expect(deepMerge(target, { plugins: ['c'] }, () => 'prepend').plugins).toEqual(['c', 'a', 'b'])
+  })
+
+  it('unions by deep equality', () => {
+    expect(mergeArrays([1, { a: 1 }], [{ a: 1 }, 2, 2], () => 'union', [])).toEqual([1, { a: 1 }, 2])
+  })
+
+  it('merges items by an identity field and appends the rest', () => {
+    const merged = deepMerge(target, { servers: [{ name: 'y', port: 3 }, { name: 'z' }, 'raw'] }, () => ({ mergeBy: 'name' }))
+    expect(merged.servers).toEqual([
+      { name: 'x', port: 1 },
+      { name: 'y', port: 3 },
+      { name: 'z' },
+      'raw',
+    ])
+  })
+
+  it('resolves strategies per key path', () => {
+    const strategy = (path: string[]) => path.join('.') === 'plugins' ? 'append' as const : 'replace' as const
+    const merged = deepMerge({ plugins: ['a'], other: ['a'] }, { plugins: ['b'], other: ['b'] }, strategy)
+    expect(merged).toEqual({ plugins: ['a', 'b'], other: ['b'] })
+  })
+
+  it('passes nested paths without array indices', () => {
+    const seen: string[] = []
+    deepMerge(
+      { servers: [{ name: 'x', tags: ['a'] }] },
+      { servers: [{ name: 'x', tags: ['b'] }] },
+      (path) => {
+        seen.push(path.join('.'))
+        return path.length === 1 ? { mergeBy: 'name' } : 'append'
+      },
+    )
+    expect(seen).toEqual(['servers', 'servers.tags'])
+  })
+
+  it('only merges arrays with arrays', () => {
+    expect(deepMerge({ a: 'x' }, { a: ['y'] }, () => 'append')).toEqual({ a: ['y'] })
+  })
+})
+
+describe('omitEqual', () => {
+  it('drops values equal to the base', () => {
+    expect(omitEqual({ a: 1, b: 2 }, { a: 1, b: 3 })).toEqual({ b: 2 })
+  })
+
+  it('recurses into nested objects and prunes empty ones', () => {
+    expect(omitEqual({ db: { host: 'x', port: 1 }, log: { level: 'info' } }, { db: { host: 'x' }, log: { level: 'info' } }))
+      .toEqual({ db: { port: 1 } })
+  })
+
+  it('compares arrays as whole values', () => {
+    expect(omitEqual({ a: [1, 2], b: [3] }, { a: [1, 2], b: [4] })).toEqual({ b: [3] })
+  })
+
+  it('keeps keys missing from the base', () => {
+    expect(omitEqual({ a: { b: 1 } }, {})).toEqual({ a: { b: 1 } })
+  })
+})
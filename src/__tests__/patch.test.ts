@@ -0,0 +1,99 @@
+import type { JsonPatchOperation } from '../patch'
+import { describe, expect, it } from 'vitest'
+import { applyJsonPatch, createJsonPatch } from '../patch'
+
+describe('applyJsonPatch', () => {
+  it('adds, removes and replaces values', () => {
+    const doc = { a: 1, b: { c: 2 }, list: [1, 3] }
+    const result = applyJsonPatch(doc, [
+      { op: 'add', path: '/b/d', value: 4 },
+      { op: 'remove', path: '/a' },
+      { op: 'replace', path: '/b/c', value: 5 },
+      { op: 'add', path: '/list/1', value: 2 },
+      { op: 'add', path: '/list/-', value: 4 },
+    ])
+    expect(result).toEqual({ b: { c: 5, d: 4 }, list: [1, 2, 3, 4] })
+  })
+
+  it('does not modify the input', () => {
+    const doc = { a: { b: 1 } }
+    applyJsonPatch(doc, [{ op: 'replace', path: '/a/b', value: 2 }])
+    expect(doc).toEqual({ a: { b: 1 } })
+  })
+
+  it('moves values', () => {
+    const result = applyJsonPatch({ a: { b: 1 }, list: ['x', 'y'] }, [
+      { op: 'move', from: '/a/b', path: '/c' },
+      { op: 'move', from: '/list/0', path: '/list/-' },
+    ])
+    expect(result).toEqual({ a: {}, c: 1, list: ['y', 'x'] })
+  })
+
+  it('refuses to move a value into itself', () => {
+    expect(() => applyJsonPatch({ a: { b: {} } }, [{ op: 'move', from: '/a', path: '/a/b/c' }]))
+      .toThrow('json patch cannot move /a into itself')
+  })
+
+  it('test passes on equal values and throws otherwise', () => {
+    const doc = { a: [1, { b: 2 }] }
+    expect(applyJsonPatch(doc, [{ op: 'test', path: '/a', value: [1, { b: 2 }] }])).toEqual(doc)
+    expect(() => applyJsonPatch(doc, [{ op: 'test', path: '/a/0', value: 2 }])).toThrow('json patch test failed: /a/0')
+  })
+
+  it('unescapes ~0 and ~1 in pointers', () => {
+    expect(applyJsonPatch({ 'a/b': 1, 'c~d': 2 }, [
+      { op: 'replace', path: '/a~1b', value: 3 },
+      { op: 'remove', path: '/c~0d' },
+    ])).toEqual({ 'a/b': 3 })
+  })
+
+  it('replaces the whole document with an empty path', () => {
+    expect(applyJsonPatch({ a: 1 }, [{ op: 'replace', path: '', value: { b: 2 } }])).toEqual({ b: 2 })
+  })
+
+  it('throws on missing paths', () => {
+    expect(() => applyJsonPatch({ a: 1 }, [{ op: 'remove', path: '/b' }])).toThrow('json patch path not found: /b')
+    expect(() => applyJsonPatch({ a: 1 }, [{ op: 'add', path: '/x/y', value: 1 }])).toThrow('json patch path not found: /x/y')
+    expect(() => applyJsonPatch({ l: [1] }, [{ op: 'add', path: '/l/5', value: 1 }])).toThrow('json patch path not found: /l/5')
+    expect(() => applyJsonPatch({ l: [1] }, [{ op: 'replace', path: '/l/-', value: 1 }])).toThrow('json patch path not found: /l/-')
+  })
+
+  it('rejects malformed pointers and unknown operations', () => {
+    expect(() => applyJsonPatch({}, [{ op: 'add', path: 'a', value: 1 }])).toThrow('invalid JSON pointer: a')
+    const copy = { op: 'copy', from: '/a', path: '/b' } as unknown as JsonPatchOperation
+    expect(() => applyJsonPatch({ a: 1 }, [copy])).toThrow('unsupported json patch operation: copy')
+  })
+
+  it('ignoreCase folds object keys outside arrays only', () => {
+    const doc = { servers: [{ Name: 'a' }], db: { host: 'h' } }
+    const result = applyJsonPatch(doc, [
+      { op: 'replace', path: '/DB/Host', value: 'x' },
+      { op: 'replace', path: '/Servers/0/Name', value: 'b' },
+    ], { ignoreCase: true })
+    expect(result).toEqual({ servers: [{ Name: 'b' }], db: { host: 'x' } })
+    expect(() => applyJsonPatch(doc, [{ op: 'remove', path: '/servers/0/name' }], { ignoreCase: true })).toThrow()
+  })
+})
+
+describe('createJsonPatch', () => {
+  it('emits minimal operations', () => {
+    const from = { a: 1, b: { c: 2, d: 3 }, list: [1, 2], gone: true }
+    const to = { a: 1, b: { c: 4, d: 3, e: 5 }, list: [1, 2, 3] }
+    expect(createJsonPatch(from, to)).toEqual([
+      { op: 'remove', path: '/gone' },
+      { op: 'replace', path: '/b/c', value: 4 },
+      { op: 'add', path: '/b/e', value: 5 },
+      { op: 'replace', path: '/list', value: [1, 2, 3] },
+    ])
+  })
+
+  it('round-trips through applyJsonPatch', () => {
+    const from = { 'a/b': { x: 1 }, 'n': null, 'keep': 'same' }
+    const to = { 'a/b': { x: 2 }, 'n': 0, 'keep': 'same', 'new': { deep: [1] } }
+    expect(applyJsonPatch(from, createJsonPatch(from, to))).toEqual(to)
+  })
+
+  it('is empty for equal documents', () => {
+    expect(createJsonPatch({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([])
+  })
+})
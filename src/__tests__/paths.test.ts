@@ -0,0 +1,63 @@
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { expandPath, standardConfigPaths } from '../paths'
+
+describe('expandPath', () => {
+  it('expands a leading tilde to the home directory', () => {
+    expect(expandPath('~')).toBe(homedir())
+    expect(expandPath('~/.myapp')).toBe(join(homedir(), '.myapp'))
+  })
+
+  it('leaves a tilde elsewhere alone', () => {
+    expect(expandPath('/tmp/~/x')).toBe('/tmp/~/x')
+    expect(expandPath('~other/x')).toBe('~other/x')
+  })
+
+  it('expands bare and braced variables', () => {
+    const env = { APP_HOME: '/opt/app', STAGE: 'prod' }
+    expect(expandPath('$APP_HOME/conf', env)).toBe('/opt/app/conf')
+    // eslint-disable-next-line no-template-curly-in-string
+    expect(expandPath('/etc/app-${STAGE}', env)).toBe('/etc/app-prod')
+  })
+
+  it('expands unset variables to an empty string', () => {
+    expect(expandPath('/etc/app$MISSING', {})).toBe('/etc/app')
+  })
+
+  it('expands a tilde produced by a variable', () => {
+    expect(expandPath('$BASE/app', { BASE: '~' })).toBe(join(homedir(), 'app'))
+  })
+})
+
+describe('standardConfigPaths', () => {
+  it('uses the XDG defaults when nothing is set', () => {
+    expect(standardConfigPaths('myapp', {})).toEqual([
+      join(homedir(), '.config', 'myapp'),
+      join(homedir(), '.myapp'),
+      '/etc/xdg/myapp',
+      '/etc/myapp',
+    ])
+  })
+
+  it('honours XDG_CONFIG_HOME and XDG_CONFIG_DIRS', () => {
+    const env = { XDG_CONFIG_HOME: '/cfg', XDG_CONFIG_DIRS: '/usr/local/etc/xdg:/etc/xdg' }
+    expect(standardConfigPaths('myapp', env)).toEqual([
+      '/cfg/myapp',
+      join(homedir(), '.myapp'),
+      '/usr/local/etc/xdg/myapp',
+      '/etc/xdg/myapp',
+      '/etc/myapp',
+    ])
+  })
+
+  it('ignores relative XDG paths', () => {
+    const env = { XDG_CONFIG_HOME: 'relative', XDG_CONFIG_DIRS: 'also/relative:/srv/xdg' }
+    expect(standardConfigPaths('myapp', env)).toEqual([
+      join(homedir(), '.config', 'myapp'),
+      join(homedir(), '.myapp'),
+      '/srv/xdg/myapp',
+      '/etc/myapp',
+    ])
+  })
+})
@@ -0,0 +1,62 @@
+import { Buffer } from 'node:buffer'
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { fetchWithTimeout, FileProvider, MemoryProvider } from '../remote'
+
+describe('memoryProvider', () => {
+  it('serves stored documents', async () => {
+    const provider = new MemoryProvider({ 'app/config': '{ a: 1 }' })
+    provider.set('app/db', 'host: h\n')
+    expect(await provider.get('app/config')).toBe('{ a: 1 }')
+    expect(await provider.get('app/db')).toBe('host: h\n')
+  })
+
+  it('rejects missing paths', async () => {
+    const provider = new MemoryProvider({ gone: '{}' })
+    provider.delete('gone')
+    await expect(provider.get('gone')).rejects.toThrow('remote config not found: gone')
+  })
+})
+
+describe('fileProvider', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `viper-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    mkdirSync(join(dir, 'app'), { recursive: true })
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('reads paths relative to the root', async () => {
+    writeFileSync(join(dir, 'app', 'config.yaml'), 'a: 1\n')
+    const provider = new FileProvider(dir)
+    expect(Buffer.from(await provider.get('app/config.yaml') as Uint8Array).toString()).toBe('a: 1\n')
+  })
+
+  it('rejects missing files', async () => {
+    await expect(new FileProvider(dir).get('missing.json5')).rejects.toThrow()
+  })
+})
+
+describe('fetchWithTimeout', () => {
+  it('returns the document when the provider answers in time', async () => {
+    expect(await fetchWithTimeout(new MemoryProvider({ p: '{}' }), 'p', 1000)).toBe('{}')
+  })
+
+  it('rejects and aborts the provider after the timeout', async () => {
+    let signal: AbortSignal | undefined
+    const hung = {
+      get: (_path: string, options?: { signal?: AbortSignal }) => {
+        signal = options?.signal
+        return new Promise<string>(() => {})
+      },
+    }
+    await expect(fetchWithTimeout(hung, 'p', 20)).rejects.toThrow('remote config timed out after 20ms: p')
+    expect(signal?.aborted).toBe(true)
+  })
+})
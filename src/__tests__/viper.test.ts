@@ -1,9 +1,15 @@
+import type { ReloadErrorEvent } from '../index'
+import { Buffer } from 'node:buffer'
 import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
-import { tmpdir } from 'node:os'
+import { homedir, tmpdir } from 'node:os'
 import { join } from 'node:path'
-import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import process from 'node:process'
+import { Readable } from 'node:stream'
+import { parseArgs } from 'node:util'
+import json5 from 'json5'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { z } from 'zod'
-import { createViper } from '../index'
+import { createViper, MemoryProvider, registerCodec } from '../index'
 import { Viper } from '../viper'
 
 function makeTmpDir(): string {
@@ -200,6 +206,135 @@ describe('layered precedence', () => {
   })
 })
 
+// ─── Named layers ────────────────────────────────────────────────────
+
+describe('named layers', () => {
+  afterEach(() => {
+    delete process.env.LAYER_PORT
+  })
+
+  it('places new layers below overrides by default', () => {
+    const v = new Viper()
+    v.addLayer('cluster', { port: 1 })
+    expect(v.layers()).toEqual(['overrides', 'cluster', 'flags', 'env', 'config', 'remote', 'defaults'])
+    expect(v.get('port')).toBe(1)
+    v.set('port', 2)
+    expect(v.get('port')).toBe(2)
+  })
+
+  it('places layers above or below existing ones', () => {
+    const v = new Viper()
+    v.addLayer('cluster', {}, { above: 'defaults' })
+    v.addLayer('user', {}, { below: 'env' })
+    v.addLayer('features', {}, { above: 'user' })
+    expect(v.layers()).toEqual(['overrides', 'flags', 'env', 'features', 'user', 'config', 'remote', 'cluster', 'defaults'])
+  })
+
+  it('get respects the configured order', () => {
+    const v = new Viper()
+    v.setDefault('port', 1)
+    v.mergeConfigMap({ port: 2, host: 'config' })
+    v.addLayer('cluster', { port: 3 }, { below: 'config' })
+    expect(v.get('port')).toBe(2)
+    v.addLayer('user', { port: 4, host: 'user' }, { above: 'config' })
+    expect(v.get('port')).toBe(4)
+    v.setEnvPrefix('LAYER')
+    v.automaticEnv()
+    process.env.LAYER_PORT = '5'
+    expect(v.get('port')).toBe('5')
+  })
+
+  it('allKeys and allSettings include custom layers', () => {
+    const v = new Viper()
+    v.setDefault('db.host', 'localhost')
+    v.addLayer('features', { Feature: { Beta: true }, db: { host: 'flag-host' } }, { below: 'config' })
+    v.mergeConfigMap({ db: { port: 5432 } })
+    expect(v.allKeys()).toEqual(['db.host', 'db.port', 'feature.beta'])
+    expect(v.allSettings()).toEqual({ db: { host: 'flag-host', port: 5432 }, feature: { beta: true } })
+  })
+
+  it('setLayer replaces data and removeLayer drops the layer', () => {
+    const v = new Viper()
+    v.addLayer('cluster', { a: 1 })
+    v.setLayer('cluster', { b: 2 })
+    expect(v.allSettings()).toEqual({ b: 2 })
+    v.removeLayer('cluster')
+    expect(v.allSettings()).toEqual({})
+    expect(v.layers()).toEqual(['overrides', 'flags', 'env', 'config', 'remote', 'defaults'])
+  })
+
+  it('rejects duplicate, unknown and built-in layer names', () => {
+    const v = new Viper()
+    v.addLayer('cluster', {})
+    expect(() => v.addLayer('cluster', {})).toThrow('config layer already exists: cluster')
+    expect(() => v.addLayer('env', {})).toThrow('config layer already exists: env')
+    expect(() => v.addLayer('x', {}, { above: 'missing' })).toThrow('unknown config layer: missing')
+    expect(() => v.addLayer('x', {}, { above: 'env', below: 'env' })).toThrow('either')
+    expect(() => v.setLayer('config', {})).toThrow('unknown config layer: config')
+    expect(() => v.removeLayer('defaults')).toThrow('unknown config layer: defaults')
+  })
+})
+
+// ─── Array merge strategies ──────────────────────────────────────────
+
+describe('array merge strategies', () => {
+  it('appends arrays from mergeConfigMap for one key', () => {
+    const v = new Viper()
+    v.setArrayMergeStrategy('append', 'plugins')
+    v.mergeConfigMap({ plugins: ['a'], hosts: ['x'] })
+    v.mergeConfigMap({ plugins: ['b'], hosts: ['y'] })
+    expect(v.get('plugins')).toEqual(['a', 'b'])
+    expect(v.get('hosts')).toEqual(['y'])
+  })
+
+  it('applies across layers in get and allSettings', () => {
+    const v = new Viper()
+    v.setArrayMergeStrategy('union')
+    v.setDefault('plugins', ['core', 'log'])
+    v.mergeConfigMap({ plugins: ['log', 'extra'] })
+    v.set('plugins', ['cli'])
+    expect(v.get('plugins')).toEqual(['core', 'log', 'extra', 'cli'])
+    expect(v.allSettings()).toEqual({ plugins: ['core', 'log', 'extra', 'cli'] })
+  })
+
+  it('stops folding at a lower value that is not an array', () => {
+    const v = new Viper()
+    v.setArrayMergeStrategy('append')
+    v.setDefault('plugins', 'none')
+    v.mergeConfigMap({ plugins: ['a'] })
+    v.set('plugins', ['b'])
+    expect(v.get('plugins')).toEqual(['a', 'b'])
+  })
+
+  it('merges entries by an identity field', () => {
+    const v = new Viper()
+    v.setArrayMergeStrategy({ mergeBy: 'name' }, 'Servers')
+    v.setDefaults({ servers: [{ name: 'a', port: 1 }, { name: 'b', port: 2 }] })
+    v.mergeConfigMap({ Servers: [{ name: 'b', port: 3 }] })
+    expect(v.get('servers')).toEqual([{ name: 'a', port: 1 }, { name: 'b', port: 3 }])
+  })
+
+  it('applies to setDefaults and file merges', () => {
+    const dir = makeTmpDir()
+    try {
+      writeFileSync(join(dir, 'config.json5'), '{ plugins: ["base"] }')
+      writeFileSync(join(dir, 'config.dev.json5'), '{ plugins: ["debug"] }')
+      const v = new Viper()
+      v.setArrayMergeStrategy('prepend', 'plugins')
+      v.setDefaults({ plugins: ['x'] })
+      v.setDefaults({ plugins: ['y'] })
+      expect(v.allSettings()).toEqual({ plugins: ['y', 'x'] })
+      v.addConfigPath(dir)
+      v.setProfile('dev')
+      v.readInConfig()
+      expect(v.get('plugins')).toEqual(['debug', 'base', 'y', 'x'])
+    }
+    finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
+
 // ─── Typed getters ───────────────────────────────────────────────────
 
 describe('typed getters', () => {
@@ -456,6 +591,364 @@ describe('env bindings', () => {
   })
 })
 
+// ─── Env snapshots ───────────────────────────────────────────────────
+
+describe('env snapshots', () => {
+  afterEach(() => {
+    delete process.env.SNAP_HOST
+    delete process.env.SNAP_PORT
+  })
+
+  it('ignores env changes until refreshEnv', () => {
+    process.env.SNAP_HOST = 'a'
+    const v = new Viper({ snapshotEnv: true })
+    v.setEnvPrefix('SNAP')
+    v.automaticEnv()
+    process.env.SNAP_HOST = 'b'
+    expect(v.get('host')).toBe('a')
+    v.refreshEnv()
+    expect(v.get('host')).toBe('b')
+  })
+
+  it('snapshots when a binding is added', () => {
+    process.env.SNAP_PORT = '1'
+    const v = new Viper({ snapshotEnv: true })
+    v.bindEnv('port', 'SNAP_PORT')
+    delete process.env.SNAP_PORT
+    expect(v.get('port')).toBe('1')
+  })
+
+  it('env is read live by default', () => {
+    const v = new Viper()
+    v.bindEnv('host', 'SNAP_HOST')
+    process.env.SNAP_HOST = 'live'
+    expect(v.get('host')).toBe('live')
+  })
+
+  it('refreshEnv notifies keys whose env values changed', () => {
+    process.env.SNAP_HOST = 'a'
+    const v = new Viper({ snapshotEnv: true })
+    v.setDefault('port', 1)
+    v.setEnvPrefix('SNAP')
+    v.automaticEnv()
+    v.setDefault('host', 'default')
+    const host = vi.fn()
+    const port = vi.fn()
+    v.onChange('host', host)
+    v.onChange('port', port)
+    process.env.SNAP_HOST = 'b'
+    v.refreshEnv()
+    expect(host).toHaveBeenCalledWith('b', 'a')
+    expect(port).not.toHaveBeenCalled()
+    v.refreshEnv()
+    expect(host).toHaveBeenCalledTimes(1)
+  })
+
+  it('refreshEnv reports live env changes without a snapshot', () => {
+    const v = new Viper()
+    v.bindEnv('host', 'SNAP_HOST')
+    const listener = vi.fn()
+    v.onChange('host', listener)
+    process.env.SNAP_HOST = 'live'
+    v.refreshEnv()
+    expect(listener).toHaveBeenCalledWith('live', undefined)
+  })
+})
+
+// ─── Patches ─────────────────────────────────────────────────────────
+
+describe('patches', () => {
+  it('applyMergePatch edits overrides by default', () => {
+    const v = new Viper()
+    v.setDefaults({ db: { host: 'h', port: 1 }, tags: ['a'] })
+    v.set('db.port', 2)
+    v.applyMergePatch({ DB: { Port: null, User: 'u' }, tags: ['b'] })
+    expect(v.allSettings()).toEqual({ db: { host: 'h', port: 1, user: 'u' }, tags: ['b'] })
+  })
+
+  it('applyMergePatch replaces arrays whatever the merge strategy', () => {
+    const v = new Viper()
+    v.setArrayMergeStrategy('append')
+    v.mergeConfigMap({ tags: ['a'] })
+    v.applyMergePatch({ tags: ['b'] }, { layer: 'config' })
+    v.setArrayMergeStrategy('replace')
+    expect(v.get('tags')).toEqual(['b'])
+  })
+
+  it('applyJsonPatch targets a chosen layer', () => {
+    const v = new Viper()
+    v.mergeConfigMap({ servers: [{ Name: 'a' }], db: { host: 'h' } })
+    v.applyJsonPatch([
+      { op: 'test', path: '/DB/Host', value: 'h' },
+      { op: 'replace', path: '/db/host', value: 'x' },
+      { op: 'add', path: '/servers/-', value: { Name: 'b' } },
+      { op: 'add', path: '/Cache', value: { TTL: 5 } },
+    ], { layer: 'config' })
+    expect(v.get('db.host')).toBe('x')
+    expect(v.get('servers')).toEqual([{ Name: 'a' }, { Name: 'b' }])
+    expect(v.get('cache.ttl')).toBe(5)
+  })
+
+  it('applyJsonPatch works on layers holding functions', () => {
+    const v = new Viper()
+    const onReady = (): void => {}
+    v.set('hooks.onReady', onReady)
+    v.applyJsonPatch([{ op: 'add', path: '/port', value: 1 }])
+    expect(v.get('hooks.onready')).toBe(onReady)
+    expect(v.get('port')).toBe(1)
+  })
+
+  it('applyJsonPatch is all or nothing', () => {
+    const v = new Viper()
+    v.set('a', 1)
+    expect(() => v.applyJsonPatch([
+      { op: 'replace', path: '/a', value: 2 },
+      { op: 'test', path: '/a', value: 3 },
+    ])).toThrow('json patch test failed: /a')
+    expect(v.get('a')).toBe(1)
+  })
+
+  it('validates the effective settings before applying', () => {
+    const v = new Viper({ schema: z.object({ port: z.number() }) })
+    v.setDefault('port', 1)
+    expect(() => v.applyMergePatch({ port: 'nope' })).toThrow()
+    expect(() => v.applyJsonPatch([{ op: 'remove', path: '/port' }], { layer: 'defaults' })).toThrow()
+    expect(v.get('port')).toBe(1)
+    v.applyJsonPatch([{ op: 'add', path: '/port', value: 2 }])
+    expect(v.get('port')).toBe(2)
+  })
+
+  it('patches custom layers and notifies subscribers', () => {
+    const v = new Viper()
+    v.addLayer('tenant', { limit: 1 })
+    const listener = vi.fn()
+    v.onChange('limit', listener)
+    v.applyMergePatch({ limit: 2 }, { layer: 'tenant' })
+    expect(listener).toHaveBeenCalledWith(2, 1)
+  })
+
+  it('drops origins of keys removed from config', () => {
+    const dir = makeTmpDir()
+    try {
+      writeFileSync(join(dir, 'config.json5'), '{ a: 1, b: 2 }')
+      const v = new Viper()
+      v.setConfigFile(join(dir, 'config.json5'))
+      v.readInConfig()
+      v.applyMergePatch({ a: null }, { layer: 'config' })
+      expect(v.configOrigin('a')).toBeUndefined()
+      expect(v.configOrigin('b')).toBe(join(dir, 'config.json5'))
+    }
+    finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('rejects env, flags and unknown layers', () => {
+    const v = new Viper()
+    expect(() => v.applyMergePatch({ a: 1 }, { layer: 'env' })).toThrow('config layer cannot be edited: env')
+    expect(() => v.applyJsonPatch([], { layer: 'flags' })).toThrow('config layer cannot be edited: flags')
+    expect(() => v.applyMergePatch({ a: 1 }, { layer: 'nope' })).toThrow('unknown config layer: nope')
+  })
+
+  it('rejects patches that do not leave an object', () => {
+    const v = new Viper()
+    expect(() => v.applyJsonPatch([{ op: 'replace', path: '', value: 1 }])).toThrow('json patch must leave the layer an object')
+  })
+
+  it('createPatch round-trips through applyJsonPatch', () => {
+    const v = new Viper()
+    v.set('db', { host: 'h', port: 1 })
+    const before = v.allSettings()
+    const ops = v.createPatch(before, { db: { host: 'x', port: 1 }, debug: true })
+    expect(ops).toEqual([
+      { op: 'replace', path: '/db/host', value: 'x' },
+      { op: 'add', path: '/debug', value: true },
+    ])
+    v.applyJsonPatch(ops)
+    expect(v.allSettings()).toEqual({ db: { host: 'x', port: 1 }, debug: true })
+  })
+})
+
+// ─── Command-line flags ──────────────────────────────────────────────
+
+describe('command-line flags', () => {
+  const options = {
+    'port': { type: 'string', default: '3000' },
+    'verbose': { type: 'boolean', short: 'v' },
+    'db-host': { type: 'string' },
+  } as const
+
+  afterEach(() => {
+    delete process.env.FLAGS_PORT
+  })
+
+  it('passed flags sit between overrides and env', () => {
+    const parsed = parseArgs({ args: ['--port', '8080'], options, tokens: true })
+    const v = new Viper()
+    v.mergeConfigMap({ port: 1 })
+    v.setEnvPrefix('FLAGS')
+    v.automaticEnv()
+    process.env.FLAGS_PORT = '9090'
+    v.bindFlags(parsed, options)
+    expect(v.get('port')).toBe('8080')
+    v.set('port', 4000)
+    expect(v.get('port')).toBe(4000)
+  })
+
+  it('flag defaults only act as defaults', () => {
+    const parsed = parseArgs({ args: [], options, tokens: true })
+    const v = new Viper()
+    v.bindFlags(parsed, options)
+    expect(v.get('port')).toBe('3000')
+    v.mergeConfigMap({ port: 8080 })
+    expect(v.get('port')).toBe(8080)
+  })
+
+  it('setDefault wins over a flag default', () => {
+    const v = new Viper()
+    v.setDefault('port', 5000)
+    v.bindFlags(parseArgs({ args: [], options, tokens: true }), options)
+    expect(v.get('port')).toBe(5000)
+  })
+
+  it('a passed value equal to the default still counts with tokens', () => {
+    const v = new Viper()
+    v.mergeConfigMap({ port: 8080 })
+    v.bindFlags(parseArgs({ args: ['--port', '3000'], options, tokens: true }), options)
+    expect(v.get('port')).toBe('3000')
+  })
+
+  it('without tokens, values equal to the default count as not passed', () => {
+    const v = new Viper()
+    v.mergeConfigMap({ port: 8080 })
+    v.bindFlags(parseArgs({ args: ['-v'], options }), options)
+    expect(v.get('port')).toBe(8080)
+    expect(v.get('verbose')).toBe(true)
+  })
+
+  it('bindFlag maps a flag to another key', () => {
+    const parsed = parseArgs({ args: ['--db-host', 'flag-host'], options, tokens: true })
+    const v = new Viper()
+    v.mergeConfigMap({ db: { host: 'config-host', port: 5432 } })
+    v.bindFlags(parsed, options)
+    v.bindFlag('db.host', 'db-host')
+    expect(v.get('db.host')).toBe('flag-host')
+    expect(v.isSet('db-host')).toBe(false)
+    expect(v.allSettings()).toEqual({ db: { host: 'flag-host', port: 5432 }, port: '3000' })
+  })
+
+  it('bindFlag before bindFlags keeps the mapping', () => {
+    const v = new Viper()
+    v.bindFlag('db.host', 'db-host')
+    v.bindFlags(parseArgs({ args: ['--db-host', 'h'], options, tokens: true }), options)
+    expect(v.get('db.host')).toBe('h')
+    expect(v.allKeys()).toEqual(['db.host', 'port'])
+  })
+})
+
+// ─── Env files ───────────────────────────────────────────────────────
+
+describe('env files', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = makeTmpDir()
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+    delete process.env.APP_HOST
+    delete process.env.ENV_DIR
+  })
+
+  it('allSettings does not copy env values into other layers', () => {
+    const v = new Viper()
+    v.setDefault('host', 'default')
+    v.setDefault('db.host', 'default')
+    v.bindEnv('db.host', 'APP_HOST')
+    process.env.APP_HOST = 'env'
+    expect(v.allSettings()).toEqual({ host: 'default', db: { host: 'env' } })
+    delete process.env.APP_HOST
+    expect(v.get('db.host')).toBe('default')
+  })
+
+  it('addEnvFile feeds automatic env lookup', () => {
+    writeFileSync(join(dir, '.env'), 'APP_HOST=file-host\nexport APP_DB_PORT="5432"\n')
+    const v = new Viper()
+    v.setEnvPrefix('APP')
+    v.automaticEnv()
+    v.addEnvFile(join(dir, '.env'))
+    expect(v.get('host')).toBe('file-host')
+    expect(v.get('db.port')).toBe('5432')
+  })
+
+  it('addEnvFile feeds explicit bindings', () => {
+    writeFileSync(join(dir, '.env'), 'DATABASE_URL=postgres://localhost\n')
+    const v = new Viper()
+    v.bindEnv('database.url', 'DATABASE_URL')
+    v.addEnvFile(join(dir, '.env'))
+    expect(v.get('database.url')).toBe('postgres://localhost')
+  })
+
+  it('addEnvFile expands env references in paths', () => {
+    writeFileSync(join(dir, '.env'), 'APP_HOST=file-host\n')
+    process.env.ENV_DIR = dir
+    const v = new Viper()
+    v.setEnvPrefix('APP')
+    v.automaticEnv()
+    v.addEnvFile('$ENV_DIR/.env')
+    expect(v.get('host')).toBe('file-host')
+  })
+
+  it('later files override earlier ones', () => {
+    writeFileSync(join(dir, '.env'), 'APP_HOST=base\n')
+    writeFileSync(join(dir, '.env.local'), 'APP_HOST=local\n')
+    const v = new Viper()
+    v.setEnvPrefix('APP')
+    v.automaticEnv()
+    v.addEnvFile(join(dir, '.env'), join(dir, '.env.local'))
+    expect(v.get('host')).toBe('local')
+  })
+
+  it('skips missing files', () => {
+    writeFileSync(join(dir, '.env'), 'APP_HOST=base\n')
+    const v = new Viper()
+    v.setEnvPrefix('APP')
+    v.automaticEnv()
+    v.addEnvFile(join(dir, '.env'), join(dir, '.env.missing'))
+    expect(v.get('host')).toBe('base')
+  })
+
+  it('real env vars win over env files', () => {
+    writeFileSync(join(dir, '.env'), 'APP_HOST=file-host\n')
+    process.env.APP_HOST = 'real-host'
+    const v = new Viper()
+    v.setEnvPrefix('APP')
+    v.automaticEnv()
+    v.addEnvFile(join(dir, '.env'))
+    expect(v.get('host')).toBe('real-host')
+  })
+
+  it('env file values sit above config and below overrides', () => {
+    writeFileSync(join(dir, '.env'), 'APP_HOST=file-host\n')
+    const v = new Viper()
+    v.setEnvPrefix('APP')
+    v.automaticEnv()
+    v.addEnvFile(join(dir, '.env'))
+    v.mergeConfigMap({ host: 'config-host', port: 1 })
+    expect(v.allSettings()).toEqual({ host: 'file-host', port: 1 })
+    v.set('host', 'override-host')
+    expect(v.get('host')).toBe('override-host')
+  })
+
+  it('does not mutate process.env', () => {
+    writeFileSync(join(dir, '.env'), 'APP_HOST=file-host\n')
+    const v = new Viper()
+    v.addEnvFile(join(dir, '.env'))
+    expect(process.env.APP_HOST).toBeUndefined()
+  })
+})
+
 // ─── Aliases ─────────────────────────────────────────────────────────
 
 describe('aliases', () => {
@@ -611,11 +1104,79 @@ describe('introspection', () => {
     delete process.env.TEST_HOST
   })
 
+  it('allSettings keeps overrides above env', () => {
+    const v = new Viper()
+    v.setEnvPrefix('TEST')
+    v.automaticEnv()
+    v.set('host', 'override-host')
+    process.env.TEST_HOST = 'env-host'
+    expect(v.allSettings()).toEqual({ host: 'override-host' })
+    delete process.env.TEST_HOST
+  })
+
   it('allSettings returns empty object when empty', () => {
     expect(new Viper().allSettings()).toEqual({})
   })
 })
 
+// ─── Diff ────────────────────────────────────────────────────────────
+
+describe('diff', () => {
+  afterEach(() => {
+    delete process.env.DIFF_PORT
+  })
+
+  it('reports added, removed and changed keys with layers', () => {
+    const current = new Viper()
+    current.setDefaults({ port: 80, db: { host: 'a', pool: 5 }, legacy: true })
+    const next = new Viper()
+    next.setDefaults({ port: 80, db: { host: 'a', pool: 5 } })
+    next.mergeConfigMap({ db: { pool: 10 }, tls: { enabled: true } })
+
+    expect(next.diff(current)).toEqual({
+      added: [{ key: 'tls.enabled', newValue: true, newLayer: 'config' }],
+      removed: [{ key: 'legacy', oldValue: true, oldLayer: 'defaults' }],
+      changed: [{ key: 'db.pool', oldValue: 5, newValue: 10, oldLayer: 'defaults', newLayer: 'config' }],
+    })
+  })
+
+  it('is empty for equal settings', () => {
+    const v = new Viper()
+    v.setDefaults({ tags: ['a', 'b'], db: { host: 'h' } })
+    expect(v.diff({ tags: ['a', 'b'], db: { host: 'h' } })).toEqual({ added: [], removed: [], changed: [] })
+  })
+
+  it('compares against a plain snapshot without its layers', () => {
+    const v = new Viper()
+    v.mergeConfigMap({ Port: 1 })
+    const before = v.allSettings()
+    v.set('port', 2)
+    expect(v.diff(before).changed).toEqual([{ key: 'port', oldValue: 1, newValue: 2, newLayer: 'overrides' }])
+  })
+
+  it('lowercases plain object keys', () => {
+    const v = new Viper()
+    v.setDefault('port', 1)
+    expect(v.diff({ PORT: 1 }).changed).toEqual([])
+  })
+
+  it('reports env-supplied values', () => {
+    process.env.DIFF_PORT = '9'
+    const v = new Viper()
+    v.setDefault('port', 1)
+    v.bindEnv('port', 'DIFF_PORT')
+    expect(v.diff({ port: 1 }).changed).toEqual([{ key: 'port', oldValue: 1, newValue: '9', newLayer: 'env' }])
+  })
+
+  it('a section replacing a leaf is a removal and an addition', () => {
+    const v = new Viper()
+    v.setDefault('db.host', 'h')
+    const result = v.diff({ db: 'url' })
+    expect(result.removed.map(c => c.key)).toEqual(['db'])
+    expect(result.added.map(c => c.key)).toEqual(['db.host'])
+  })
+})
+
 // ─── Config file operations ──────────────────────────────────────────
 
 describe('config file operations', () => {
@@ -725,6 +1286,39 @@ describe('config file operations', () => {
     expect(v.get('name')).toBe('myapp')
   })
 
+  it('discovers any supported extension when no type is set', () => {
+    writeFileSync(join(dir, 'config.yaml'), 'source: yaml\n')
+    const v = new Viper()
+    v.addConfigPath(dir)
+    v.readInConfig()
+    expect(v.configFileUsed()).toBe(join(dir, 'config.yaml'))
+    expect(v.get('source')).toBe('yaml')
+  })
+
+  it('throws on ambiguous candidates when no type is set', () => {
+    writeFileSync(join(dir, 'config.json5'), '{}')
+    writeFileSync(join(dir, 'config.toml'), '')
+    const v = new Viper()
+    v.addConfigPath(dir)
+    expect(() => v.readInConfig()).toThrow('ambiguous config file')
+  })
+
+  it('setConfigType disambiguates discovery', () => {
+    writeFileSync(join(dir, 'config.json5'), '{ source: "json5" }')
+    writeFileSync(join(dir, 'config.toml'), 'source = "toml"\n')
+    const v = new Viper()
+    v.setConfigType('toml')
+    v.addConfigPath(dir)
+    v.readInConfig()
+    expect(v.get('source')).toBe('toml')
+  })
+
+  it('not-found error lists every tried extension', () => {
+    const v = new Viper()
+    v.addConfigPath(dir)
+    expect(() => v.readInConfig()).toThrow('config.{json5,json,yaml,yml,toml}')
+  })
+
   it('addConfigPath searches multiple directories', () => {
     const dir2 = `${dir}-2`
     mkdirSync(dir2, { recursive: true })
@@ -738,51 +1332,1303 @@ describe('config file operations', () => {
   })
 })
 
-// ─── Write operations ────────────────────────────────────────────────
+// ─── Multiple config files ───────────────────────────────────────────
 
-describe('write operations', () => {
+describe('multiple config files', () => {
   let dir: string
 
   beforeEach(() => {
     dir = makeTmpDir()
+    writeFileSync(join(dir, 'base.json5'), '{ db: { host: "base", port: 5432 }, region: "none" }')
+    writeFileSync(join(dir, 'region.yaml'), 'region: eu\n')
+    writeFileSync(join(dir, 'host.json5'), '{ db: { host: "host" } }')
   })
 
   afterEach(() => {
     rmSync(dir, { recursive: true, force: true })
   })
 
-  it('writeConfig writes current settings', async () => {
-    const file = join(dir, 'config.json5')
-    writeFileSync(file, '{}')
+  it('merges the files in order', () => {
     const v = new Viper()
-    v.setConfigFile(file)
+    v.setConfigFiles([join(dir, 'base.json5'), join(dir, 'region.yaml'), join(dir, 'host.json5')])
     v.readInConfig()
-    v.set('host', 'localhost')
-    await v.writeConfig()
-    const v2 = new Viper()
-    v2.setConfigFile(file)
-    v2.readInConfig()
-    expect(v2.get('host')).toBe('localhost')
+    expect(v.allSettings()).toEqual({ db: { host: 'host', port: 5432 }, region: 'eu' })
+    expect(v.configFilesUsed()).toEqual([join(dir, 'base.json5'), join(dir, 'region.yaml'), join(dir, 'host.json5')])
+    expect(v.configFileUsed()).toBe(join(dir, 'host.json5'))
+    expect(v.configOrigin('db.port')).toBe(join(dir, 'base.json5'))
   })
 
-  it('writeConfig throws when no config file set', async () => {
+  it('skips missing optional files', () => {
     const v = new Viper()
-    v.set('key', 'value')
-    await expect(v.writeConfig()).rejects.toThrow('no config file set')
+    v.setConfigFiles([join(dir, 'base.json5'), { path: join(dir, 'local.json5'), optional: true }])
+    v.readInConfig()
+    expect(v.configFilesUsed()).toEqual([join(dir, 'base.json5')])
+    expect(v.configFileUsed()).toBe(join(dir, 'base.json5'))
   })
 
-  it('writeConfigAs writes to specific path', async () => {
-    const file = join(dir, 'output.json5')
+  it('throws for a missing required file and keeps the previous config', () => {
     const v = new Viper()
-    v.set('key', 'value')
-    await v.writeConfigAs(file)
-    const v2 = new Viper()
-    v2.setConfigFile(file)
-    v2.readInConfig()
-    expect(v2.get('key')).toBe('value')
+    v.mergeConfigMap({ a: 1 })
+    v.setConfigFiles([join(dir, 'base.json5'), { path: join(dir, 'missing.json5') }])
+    expect(() => v.readInConfig()).toThrow(`config file not found: ${join(dir, 'missing.json5')}`)
+    expect(v.allSettings()).toEqual({ a: 1 })
   })
 
-  it('writeConfigAs writes all layers merged', async () => {
+  it('throws when every file is optional and missing', () => {
+    const v = new Viper()
+    v.setConfigFiles([{ path: join(dir, 'a.json5'), optional: true }])
+    expect(() => v.readInConfig()).toThrow('none of the optional files exist')
+  })
+
+  it('validates the merged result once', () => {
+    writeFileSync(join(dir, 'a.json5'), '{ host: "h" }')
+    writeFileSync(join(dir, 'b.json5'), '{ port: 1 }')
+    const v = new Viper({ schema: z.object({ host: z.string(), port: z.number() }) })
+    v.setConfigFiles([join(dir, 'a.json5'), join(dir, 'b.json5')])
+    v.readInConfig()
+    expect(v.allSettings()).toEqual({ host: 'h', port: 1 })
+  })
+
+  it('mergeInConfig re-reads the list over existing config', () => {
+    const v = new Viper()
+    v.mergeConfigMap({ extra: true })
+    v.setConfigFiles([join(dir, 'base.json5'), join(dir, 'host.json5')])
+    v.mergeInConfig()
+    expect(v.get('extra')).toBe(true)
+    expect(v.get('db.host')).toBe('host')
+  })
+
+  it('readInConfigAsync honours optional and required flags', async () => {
+    const v = new Viper()
+    v.setConfigFiles([join(dir, 'base.json5'), { path: join(dir, 'local.json5'), optional: true }, join(dir, 'host.json5')])
+    await v.readInConfigAsync()
+    expect(v.get('db.host')).toBe('host')
+    v.setConfigFiles([join(dir, 'missing.json5')])
+    await expect(v.readInConfigAsync()).rejects.toThrow('config file not found')
+  })
+})
+
+// ─── Drop-in config directories ──────────────────────────────────────
+
+describe('config dirs', () => {
+  let dir: string
+  let confd: string
+
+  beforeEach(() => {
+    dir = makeTmpDir()
+    confd = join(dir, 'conf.d')
+    mkdirSync(confd)
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('writeConfig refuses to copy fragments into the base file', async () => {
+    writeFileSync(join(dir, 'config.json5'), '{ log: "info" }')
+    writeFileSync(join(confd, '10-db.json5'), '{ db: { host: "frag" } }')
+    const v = new Viper()
+    v.addConfigPath(dir)
+    v.addConfigDir(confd)
+    v.readInConfig()
+    await expect(v.writeConfig()).rejects.toThrow('config was merged from several files')
+    expect(readFileSync(join(dir, 'config.json5'), 'utf-8')).toBe('{ log: "info" }')
+  })
+
+  it('merges fragments over the base file in lexical order', () => {
+    writeFileSync(join(dir, 'config.json5'), '{ db: { host: "base", port: 5432 }, log: "info" }')
+    writeFileSync(join(confd, '20-db.json5'), '{ db: { host: "twenty" } }')
+    writeFileSync(join(confd, '10-db.yaml'), 'db:\n  host: ten\n  pool: 5\n')
+    const v = new Viper()
+    v.addConfigPath(dir)
+    v.addConfigDir(confd)
+    v.readInConfig()
+    expect(v.allSettings()).toEqual({ db: { host: 'twenty', port: 5432, pool: 5 }, log: 'info' })
+  })
+
+  it('records which file contributed each key', () => {
+    writeFileSync(join(dir, 'config.json5'), '{ db: { host: "base", port: 5432 } }')
+    writeFileSync(join(confd, '10-db.json5'), '{ db: { host: "frag" } }')
+    const v = new Viper()
+    v.addConfigPath(dir)
+    v.addConfigDir(confd)
+    v.readInConfig()
+    expect(v.configOrigin('db.host')).toBe(join(confd, '10-db.json5'))
+    expect(v.configOrigin('db.port')).toBe(join(dir, 'config.json5'))
+    expect(v.configOrigin('missing')).toBeUndefined()
+  })
+
+  it('drops origins for keys deleted by a later fragment', () => {
+    writeFileSync(join(confd, '10-a.json5'), '{ feature: { on: true } }')
+    writeFileSync(join(confd, '20-b.json5'), '{ feature: null }')
+    const v = new Viper()
+    v.addConfigDir(confd)
+    v.readInConfig()
+    expect(v.get('feature')).toBeUndefined()
+    expect(v.configOrigin('feature.on')).toBeUndefined()
+  })
+
+  it('mergeConfigMap clears origins of the keys it sets', () => {
+    writeFileSync(join(confd, '10-a.json5'), '{ host: "frag" }')
+    const v = new Viper()
+    v.addConfigDir(confd)
+    v.readInConfig()
+    v.mergeConfigMap({ host: 'manual' })
+    expect(v.configOrigin('host')).toBeUndefined()
+  })
+
+  it('works without a base config file', () => {
+    writeFileSync(join(confd, '10-a.json5'), '{ a: 1 }')
+    const v = new Viper()
+    v.addConfigDir(confd)
+    v.readInConfig()
+    expect(v.get('a')).toBe(1)
+    expect(v.configFileUsed()).toBeUndefined()
+  })
+
+  it('throws when neither a base file nor fragments exist', () => {
+    const v = new Viper()
+    v.addConfigDir(confd)
+    expect(() => v.readInConfig()).toThrow('config file not found')
+  })
+
+  it('only picks fragments of the configured type', () => {
+    writeFileSync(join(confd, '10-a.json5'), '{ a: 1 }')
+    writeFileSync(join(confd, '20-b.yaml'), 'b: 2\n')
+    const v = new Viper()
+    v.setConfigType('yaml')
+    v.addConfigDir(confd)
+    v.readInConfig()
+    expect(v.allSettings()).toEqual({ b: 2 })
+  })
+
+  it('validates the merged result once', () => {
+    // Each fragment alone is incomplete; together they satisfy the schema
+    writeFileSync(join(confd, '10-host.json5'), '{ host: "h" }')
+    writeFileSync(join(confd, '20-port.json5'), '{ port: 1 }')
+    const v = new Viper({ schema: z.object({ host: z.string(), port: z.number() }) })
+    v.addConfigDir(confd)
+    v.readInConfig()
+    expect(v.allSettings()).toEqual({ host: 'h', port: 1 })
+  })
+
+  it('leaves config untouched when the merged result is invalid', () => {
+    writeFileSync(join(confd, '10-port.json5'), '{ port: "nope" }')
+    const v = new Viper({ schema: z.object({ port: z.number() }).partial() })
+    v.mergeConfigMap({ port: 1 })
+    v.addConfigDir(confd)
+    expect(() => v.mergeInConfig()).toThrow()
+    expect(v.get('port')).toBe(1)
+  })
+
+  it('readInConfigAsync merges fragments too', async () => {
+    writeFileSync(join(dir, 'config.json5'), '{ a: 1 }')
+    writeFileSync(join(confd, '10-b.json5'), '{ b: 2 }')
+    const v = new Viper()
+    v.addConfigPath(dir)
+    v.addConfigDir(confd)
+    await v.readInConfigAsync()
+    expect(v.allSettings()).toEqual({ a: 1, b: 2 })
+    expect(v.configOrigin('b')).toBe(join(confd, '10-b.json5'))
+  })
+})
+
+// ─── Standard search paths ───────────────────────────────────────────
+
+describe('standard search paths', () => {
+  const originalEnv = { ...process.env }
+  let dir: string
+
+  beforeEach(() => {
+    dir = makeTmpDir()
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('adds the XDG and conventional directories in order', () => {
+    process.env = { ...originalEnv, XDG_CONFIG_HOME: join(dir, 'xdg'), XDG_CONFIG_DIRS: '' }
+    const v = new Viper()
+    v.addStandardConfigPaths('myapp')
+    expect(v.configSearchPaths()).toEqual([
+      join(dir, 'xdg', 'myapp'),
+      join(homedir(), '.myapp'),
+      '/etc/xdg/myapp',
+      '/etc/myapp',
+    ])
+  })
+
+  it('reads from XDG_CONFIG_HOME', () => {
+    process.env = { ...originalEnv, XDG_CONFIG_HOME: dir }
+    mkdirSync(join(dir, 'myapp'))
+    writeFileSync(join(dir, 'myapp', 'config.json5'), '{ a: 1 }')
+    const v = new Viper()
+    v.addStandardConfigPaths('myapp')
+    v.readInConfig()
+    expect(v.configFileUsed()).toBe(join(dir, 'myapp', 'config.json5'))
+  })
+
+  it('expands ~ and env references in configured paths', () => {
+    process.env = { ...originalEnv, APP_DIR: dir }
+    writeFileSync(join(dir, 'config.json5'), '{ a: 1 }')
+    const v = new Viper()
+    v.addConfigPath('~/.myapp')
+    v.addConfigPath('$APP_DIR')
+    expect(v.configSearchPaths()).toEqual([join(homedir(), '.myapp'), dir])
+    v.readInConfig()
+    expect(v.configFileUsed()).toBe(join(dir, 'config.json5'))
+  })
+
+  it('expands setConfigFile and addConfigDir paths', () => {
+    process.env = { ...originalEnv, APP_DIR: dir }
+    mkdirSync(join(dir, 'conf.d'))
+    writeFileSync(join(dir, 'main.json5'), '{ a: 1 }')
+    writeFileSync(join(dir, 'conf.d', '10-b.json5'), '{ b: 2 }')
+    const v = new Viper()
+    v.setConfigFile('$APP_DIR/main.json5')
+    v.addConfigDir('$APP_DIR/conf.d')
+    v.readInConfig()
+    expect(v.allSettings()).toEqual({ a: 1, b: 2 })
+    expect(v.configFileUsed()).toBe(join(dir, 'main.json5'))
+  })
+
+  it('lists upward directories before configured paths', () => {
+    const leaf = join(dir, 'a')
+    mkdirSync(leaf)
+    mkdirSync(join(dir, '.git'))
+    const v = new Viper()
+    v.addConfigPath('/etc/myapp')
+    v.searchUpward({ from: leaf, stopAt: '.git' })
+    expect(v.configSearchPaths()).toEqual([leaf, dir, '/etc/myapp'])
+  })
+})
+
+// ─── Config directives ───────────────────────────────────────────────
+
+describe('config directives', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = makeTmpDir()
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('merges $extends beneath and $include over the file and strips both', () => {
+    writeFileSync(join(dir, 'base.json5'), '{ db: { host: "base", port: 5432 }, log: "info" }')
+    writeFileSync(join(dir, 'db.json5'), '{ db: { pool: 5 } }')
+    writeFileSync(join(dir, 'config.json5'), `{
+      $extends: "./base.json5",
+      $include: ["./db.json5"],
+      db: { host: "app" },
+    }`)
+    const v = new Viper()
+    v.addConfigPath(dir)
+    v.readInConfig()
+    expect(v.allSettings()).toEqual({ db: { host: 'app', port: 5432, pool: 5 }, log: 'info' })
+    expect(v.isSet('$extends')).toBe(false)
+    expect(v.configOrigin('db.pool')).toBe(join(dir, 'db.json5'))
+    expect(v.configFilesUsed()).toEqual([join(dir, 'base.json5'), join(dir, 'config.json5'), join(dir, 'db.json5')])
+    expect(v.configFileUsed()).toBe(join(dir, 'config.json5'))
+  })
+
+  it('refuses to rewrite a file that uses directives', async () => {
+    const source = '{ $extends: "./base.json5", name: "app" }'
+    writeFileSync(join(dir, 'base.json5'), '{ db: { host: "base" } }')
+    writeFileSync(join(dir, 'config.json5'), source)
+    const v = new Viper()
+    v.addConfigPath(dir)
+    v.readInConfig()
+    v.set('name', 'x')
+    await expect(v.writeConfig({ layers: ['config', 'overrides'] })).rejects.toThrow()
+    await expect(v.writeConfigAs(join(dir, 'config.json5'))).rejects.toThrow('uses $extends or $include')
+    expect(readFileSync(join(dir, 'config.json5'), 'utf-8')).toBe(source)
+
+    const out = join(dir, 'flat.json5')
+    await v.writeConfigAs(out, { layers: ['config', 'overrides'] })
+    expect(json5.parse(readFileSync(out, 'utf-8'))).toEqual({ db: { host: 'base' }, name: 'x' })
+  })
+
+  it('throws on a cycle and keeps the previous config', () => {
+    writeFileSync(join(dir, 'config.json5'), '{ a: 1 }')
+    const v = new Viper()
+    v.addConfigPath(dir)
+    v.readInConfig()
+    writeFileSync(join(dir, 'config.json5'), '{ $extends: "config.json5" }')
+    expect(() => v.readInConfig()).toThrow('config include cycle')
+    expect(v.get('a')).toBe(1)
+  })
+
+  it('resolves directives in drop-in fragments', async () => {
+    mkdirSync(join(dir, 'conf.d'))
+    writeFileSync(join(dir, 'shared.json5'), '{ s: 1 }')
+    writeFileSync(join(dir, 'conf.d', '10-a.json5'), '{ $include: "../shared.json5" }')
+    const v = new Viper()
+    v.addConfigDir(join(dir, 'conf.d'))
+    await v.readInConfigAsync()
+    expect(v.allSettings()).toEqual({ s: 1 })
+  })
+})
+
+// ─── Profiles ────────────────────────────────────────────────────────
+
+describe('profiles', () => {
+  const originalEnv = { ...process.env }
+  let dir: string
+
+  beforeEach(() => {
+    dir = makeTmpDir()
+    writeFileSync(join(dir, 'config.json5'), '{ db: { host: "localhost", port: 5432 }, debug: true }')
+    writeFileSync(join(dir, 'config.production.json5'), '{ db: { host: "db.internal" }, debug: false }')
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('merges the profile overlay over the base file', () => {
+    const v = new Viper()
+    v.addConfigPath(dir)
+    v.setProfile('production')
+    v.readInConfig()
+    expect(v.allSettings()).toEqual({ db: { host: 'db.internal', port: 5432 }, debug: false })
+    expect(v.configFilesUsed()).toEqual([join(dir, 'config.json5'), join(dir, 'config.production.json5')])
+    expect(v.configFileUsed()).toBe(join(dir, 'config.json5'))
+    expect(v.configOrigin('db.host')).toBe(join(dir, 'config.production.json5'))
+  })
+
+  it('reads the base file alone when the overlay is missing', () => {
+    const v = new Viper()
+    v.addConfigPath(dir)
+    v.setProfile('staging')
+    v.readInConfig()
+    expect(v.get('db.host')).toBe('localhost')
+    expect(v.configFilesUsed()).toEqual([join(dir, 'config.json5')])
+  })
+
+  it('takes the profile from an env var', () => {
+    process.env = { ...originalEnv, NODE_ENV: 'production' }
+    const v = new Viper()
+    v.addConfigPath(dir)
+    v.setProfileEnv('NODE_ENV')
+    expect(v.activeProfile()).toBe('production')
+    v.readInConfig()
+    expect(v.get('debug')).toBe(false)
+  })
+
+  it('an explicit profile wins over the env var', () => {
+    process.env = { ...originalEnv, NODE_ENV: 'production' }
+    const v = new Viper()
+    v.setProfileEnv('NODE_ENV')
+    v.setProfile('staging')
+    expect(v.activeProfile()).toBe('staging')
+  })
+
+  it('finds overlays of another format and next to an explicit file', () => {
+    writeFileSync(join(dir, 'app.json5'), '{ a: 1, b: 1 }')
+    writeFileSync(join(dir, 'app.test.yaml'), 'b: 2\n')
+    const v = new Viper()
+    v.setConfigFile(join(dir, 'app.json5'))
+    v.setProfile('test')
+    v.readInConfig()
+    expect(v.allSettings()).toEqual({ a: 1, b: 2 })
+  })
+
+  it('validates the combined result', () => {
+    writeFileSync(join(dir, 'config.json5'), '{ host: "h" }')
+    writeFileSync(join(dir, 'config.production.json5'), '{ port: 1 }')
+    const v = new Viper({ schema: z.object({ host: z.string(), port: z.number() }) })
+    v.addConfigPath(dir)
+    v.setProfile('production')
+    v.readInConfig()
+    expect(v.allSettings()).toEqual({ host: 'h', port: 1 })
+  })
+
+  it('readInConfigAsync applies the overlay', async () => {
+    const v = new Viper()
+    v.addConfigPath(dir)
+    v.setProfile('production')
+    await v.readInConfigAsync()
+    expect(v.get('db.host')).toBe('db.internal')
+  })
+
+  it('writeConfig refuses to fold the overlay into the base file', async () => {
+    const base = join(dir, 'config.json5')
+    const before = readFileSync(base, 'utf-8')
+    const v = new Viper()
+    v.addConfigPath(dir)
+    v.setProfile('production')
+    v.readInConfig()
+    v.set('name', 'x')
+    await expect(v.writeConfig()).rejects.toThrow('use writeConfigAs() to choose the target')
+    await expect(v.safeWriteConfig()).rejects.toThrow('use writeConfigAs() to choose the target')
+    expect(readFileSync(base, 'utf-8')).toBe(before)
+
+    const out = join(dir, 'out.json5')
+    await v.writeConfigAs(out)
+    expect(json5.parse(readFileSync(out, 'utf-8'))).toEqual({ db: { host: 'db.internal', port: 5432 }, debug: false, name: 'x' })
+  })
+})
+
+// ─── Upward config search ────────────────────────────────────────────
+
+describe('upward config search', () => {
+  let dir: string
+  let leaf: string
+
+  beforeEach(() => {
+    dir = makeTmpDir()
+    leaf = join(dir, 'packages', 'app')
+    mkdirSync(leaf, { recursive: true })
+    mkdirSync(join(dir, '.git'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('reads the nearest config file above the start directory', () => {
+    writeFileSync(join(dir, 'config.json5'), '{ level: "root" }')
+    writeFileSync(join(dir, 'packages', 'config.json5'), '{ level: "packages" }')
+    const v = new Viper()
+    v.searchUpward({ from: leaf, stopAt: '.git' })
+    v.readInConfig()
+    expect(v.get('level')).toBe('packages')
+    expect(v.configFileUsed()).toBe(join(dir, 'packages', 'config.json5'))
+  })
+
+  it('cascade mode merges every match with the closest file winning', () => {
+    writeFileSync(join(dir, 'config.json5'), '{ db: { host: "root", port: 5432 }, log: "info" }')
+    writeFileSync(join(leaf, 'config.yaml'), 'db:\n  host: app\n')
+    const v = new Viper()
+    v.searchUpward({ from: leaf, stopAt: '.git', mode: 'cascade' })
+    v.readInConfig()
+    expect(v.allSettings()).toEqual({ db: { host: 'app', port: 5432 }, log: 'info' })
+    expect(v.configOrigin('db.port')).toBe(join(dir, 'config.json5'))
+    expect(v.configFilesUsed()).toEqual([join(dir, 'config.json5'), join(leaf, 'config.yaml')])
+    expect(v.configFileUsed()).toBe(join(leaf, 'config.yaml'))
+  })
+
+  it('does not look past the stop marker', () => {
+    mkdirSync(join(dir, 'packages', '.git'))
+    writeFileSync(join(dir, 'config.json5'), '{ a: 1 }')
+    const v = new Viper()
+    v.searchUpward({ from: leaf, stopAt: '.git' })
+    expect(() => v.readInConfig()).toThrow(`${leaf} and its parents`)
+  })
+
+  it('falls back to config paths when nothing is found upward', () => {
+    const other = join(dir, 'elsewhere')
+    mkdirSync(other)
+    writeFileSync(join(other, 'config.json5'), '{ a: 1 }')
+    const v = new Viper()
+    v.searchUpward({ from: leaf, stopAt: '.git' })
+    v.addConfigPath(other)
+    v.readInConfig()
+    expect(v.get('a')).toBe(1)
+  })
+
+  it('re-runs discovery on every read', () => {
+    writeFileSync(join(dir, 'config.json5'), '{ level: "root" }')
+    const v = new Viper()
+    v.searchUpward({ from: leaf, stopAt: '.git' })
+    v.readInConfig()
+    writeFileSync(join(leaf, 'config.json5'), '{ level: "app" }')
+    v.readInConfig()
+    expect(v.get('level')).toBe('app')
+  })
+
+  it('readInConfigAsync cascades too', async () => {
+    writeFileSync(join(dir, 'config.json5'), '{ a: 1, b: 1 }')
+    writeFileSync(join(leaf, 'config.json5'), '{ b: 2 }')
+    const v = new Viper()
+    v.searchUpward({ from: leaf, stopAt: ['.hg', '.git'], mode: 'cascade' })
+    await v.readInConfigAsync()
+    expect(v.allSettings()).toEqual({ a: 1, b: 2 })
+  })
+})
+
+// ─── Async config loading ────────────────────────────────────────────
+
+describe('async config loading', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = makeTmpDir()
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('readInConfigAsync finds, reads and validates the config file', async () => {
+    writeFileSync(join(dir, 'config.json5'), '{ Host: "localhost" }')
+    const v = new Viper({ schema: z.object({ host: z.string() }) })
+    v.addConfigPath(dir)
+    await v.readInConfigAsync()
+    expect(v.configFileUsed()).toBe(join(dir, 'config.json5'))
+    expect(v.get('host')).toBe('localhost')
+  })
+
+  it('readInConfigAsync rejects when no file is found', async () => {
+    const v = new Viper()
+    v.addConfigPath(dir)
+    await expect(v.readInConfigAsync()).rejects.toThrow('config file not found')
+  })
+
+  it('mergeInConfigAsync merges into the config layer', async () => {
+    writeFileSync(join(dir, 'config.yaml'), 'db:\n  port: 5432\n')
+    const v = new Viper()
+    v.mergeConfigMap({ db: { host: 'db.local' } })
+    v.addConfigPath(dir)
+    await v.mergeInConfigAsync()
+    expect(v.getObject('db')).toEqual({ host: 'db.local', port: 5432 })
+  })
+
+  it('serializes concurrent loads so the last call wins', async () => {
+    async function* slow() {
+      await new Promise(resolve => setTimeout(resolve, 20))
+      yield '{ n: 1 }'
+    }
+    const v = new Viper()
+    const first = v.readConfig(slow())
+    const second = v.readConfig('{ n: 2 }')
+    await Promise.all([first, second])
+    expect(v.get('n')).toBe(2)
+  })
+
+  it('a failed load does not block later ones', async () => {
+    const file = join(dir, 'config.json5')
+    writeFileSync(file, '{ broken')
+    const v = new Viper()
+    v.setConfigFile(file)
+    const failed = v.readInConfigAsync()
+    const next = v.readConfig('{ ok: true }')
+    await expect(failed).rejects.toThrow()
+    await next
+    expect(v.get('ok')).toBe(true)
+  })
+})
+
+// ─── Config sources ──────────────────────────────────────────────────
+
+describe('config sources', () => {
+  it('readConfig replaces the config layer from a string', async () => {
+    const v = new Viper()
+    v.mergeConfigMap({ old: true })
+    await v.readConfig('{ Host: "localhost", Database: { Port: 5432 } }')
+    expect(v.get('host')).toBe('localhost')
+    expect(v.get('database.port')).toBe(5432)
+    expect(v.get('old')).toBeUndefined()
+  })
+
+  it('readConfig honors the type option', async () => {
+    const v = new Viper()
+    await v.readConfig(Buffer.from('host: yaml-host\n'), { type: 'yaml' })
+    expect(v.get('host')).toBe('yaml-host')
+  })
+
+  it('readConfig falls back to setConfigType', async () => {
+    const v = new Viper()
+    v.setConfigType('toml')
+    await v.readConfig('host = "toml-host"\n')
+    expect(v.get('host')).toBe('toml-host')
+  })
+
+  it('mergeConfig merges a stream into the config layer', async () => {
+    const v = new Viper()
+    v.mergeConfigMap({ database: { host: 'db.local' } })
+    await v.mergeConfig(Readable.from(['{ database: ', '{ port: 5432 } }']))
+    expect(v.getObject('database')).toEqual({ host: 'db.local', port: 5432 })
+  })
+
+  it('validates sources against the schema', async () => {
+    const v = new Viper({ schema: z.object({ port: z.number() }) })
+    await expect(v.readConfig('{ port: "nope" }')).rejects.toThrow()
+    await expect(v.mergeConfig('{ port: 1 }')).resolves.toBeUndefined()
+    expect(v.get('port')).toBe(1)
+  })
+
+  it('does not change configFileUsed', async () => {
+    const v = new Viper()
+    await v.readConfig('{}')
+    expect(v.configFileUsed()).toBeUndefined()
+  })
+})
+
+// ─── Change subscriptions ────────────────────────────────────────────
+
+describe('change subscriptions', () => {
+  afterEach(() => {
+    delete process.env.SUB_DB_HOST
+  })
+
+  it('fires when the effective value changes', () => {
+    const v = new Viper()
+    const calls: unknown[][] = []
+    v.onChange('port', (next, prev) => calls.push([next, prev]))
+    v.setDefault('port', 1)
+    v.mergeConfigMap({ port: 2 })
+    v.set('port', 3)
+    expect(calls).toEqual([[1, undefined], [2, 1], [3, 2]])
+  })
+
+  it('runs every listener before rethrowing a listener error', () => {
+    const v = new Viper()
+    const other = vi.fn()
+    v.onChange('a', () => {
+      throw new Error('listener failed')
+    })
+    v.onChange('a', other)
+    expect(() => v.set('a', 1)).toThrow('listener failed')
+    expect(other).toHaveBeenCalledWith(1, undefined)
+    expect(v.get('a')).toBe(1)
+  })
+
+  it('accepts function values under a watched key', () => {
+    const v = new Viper()
+    const onStart = (): void => {}
+    v.set('hooks.onStart', onStart)
+    const listener = vi.fn()
+    v.onChange('hooks', listener)
+    const onReady = (): void => {}
+    v.set('hooks.onReady', onReady)
+    expect(listener).toHaveBeenCalledWith({ onstart: onStart, onready: onReady }, { onstart: onStart })
+    expect(v.get('hooks.onready')).toBe(onReady)
+  })
+
+  it('stays quiet when a lower layer changes under a higher one', () => {
+    const v = new Viper()
+    v.set('port', 3)
+    const calls: unknown[] = []
+    v.onChange('port', next => calls.push(next))
+    v.setDefault('port', 1)
+    v.mergeConfigMap({ port: 2, other: true })
+    v.set('port', 3)
+    expect(calls).toEqual([])
+  })
+
+  it('section subscriptions fire for changes anywhere below the key', () => {
+    const v = new Viper()
+    v.setDefaults({ database: { host: 'a', port: 1 }, cache: { ttl: 1 } })
+    const calls: unknown[][] = []
+    v.onChange('Database', (next, prev) => calls.push([next, prev]))
+    v.mergeConfigMap({ cache: { ttl: 2 } })
+    expect(calls).toEqual([])
+    v.set('database.port', 2)
+    expect(calls).toEqual([[{ host: 'a', port: 2 }, { host: 'a', port: 1 }]])
+  })
+
+  it('fires on readInConfig and reloads', () => {
+    const dir = makeTmpDir()
+    try {
+      const file = join(dir, 'config.json5')
+      writeFileSync(file, '{ database: { host: "a" }, log: "info" }')
+      const v = new Viper()
+      v.setConfigFile(file)
+      const hosts: unknown[] = []
+      v.onChange('database.host', next => hosts.push(next))
+      v.readInConfig()
+      writeFileSync(file, '{ database: { host: "a" }, log: "debug" }')
+      v.readInConfig()
+      writeFileSync(file, '{ database: { host: "b" } }')
+      v.mergeInConfig()
+      expect(hosts).toEqual(['a', 'b'])
+    }
+    finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('sees in-place edits to nested values', () => {
+    const v = new Viper()
+    v.set('db.pool.max', 1)
+    const calls: unknown[] = []
+    v.onChange('db', next => calls.push(next))
+    v.set('db.pool.max', 2)
+    expect(calls).toEqual([{ pool: { max: 2 } }])
+  })
+
+  it('covers env files, aliases and custom layers', () => {
+    const dir = makeTmpDir()
+    try {
+      writeFileSync(join(dir, '.env'), 'SUB_DB_HOST=from-file\n')
+      const v = new Viper()
+      v.setEnvPrefix('SUB')
+      v.automaticEnv()
+      v.setDefault('db.host', 'default')
+      const calls: unknown[] = []
+      v.onChange('db.host', next => calls.push(next))
+      v.addEnvFile(join(dir, '.env'))
+      v.addLayer('pinned', { db: { host: 'pinned' } })
+      v.removeLayer('pinned')
+      expect(calls).toEqual(['from-file', 'pinned', 'from-file'])
+    }
+    finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('unsubscribes', () => {
+    const v = new Viper()
+    let calls = 0
+    const off = v.onChange('a', () => calls++)
+    v.set('a', 1)
+    off()
+    v.set('a', 2)
+    expect(calls).toBe(1)
+  })
+
+  it('does not fire when a load fails validation', async () => {
+    const v = new Viper({ schema: z.object({ port: z.number() }).partial() })
+    let calls = 0
+    v.onChange('port', () => calls++)
+    await expect(v.readConfig('{ port: "x" }')).rejects.toThrow()
+    await v.readConfig('{ port: 1 }')
+    expect(calls).toBe(1)
+  })
+})
+
+// ─── Watching config ─────────────────────────────────────────────────
+
+describe('watching config', () => {
+  let dir: string
+  let stop: (() => void) | undefined
+
+  function nextChange(v: Viper): Promise<Record<string, unknown>> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('no config change')), 2000)
+      const off = v.onConfigChange((settings) => {
+        clearTimeout(timeout)
+        off()
+        resolve(settings)
+      })
+    })
+  }
+
+  beforeEach(() => {
+    dir = makeTmpDir()
+  })
+
+  afterEach(() => {
+    stop?.()
+    stop = undefined
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('reloads and notifies listeners when the file changes', async () => {
+    const file = join(dir, 'config.json5')
+    writeFileSync(file, '{ port: 1 }')
+    const v = new Viper()
+    v.setConfigFile(file)
+    v.readInConfig()
+    stop = v.watchConfig({ debounce: 20 })
+    const changed = nextChange(v)
+    writeFileSync(file, '{ port: 2 }')
+    expect(await changed).toEqual({ port: 2 })
+    expect(v.get('port')).toBe(2)
+  })
+
+  it('passes listener errors to onError and still notifies other listeners', async () => {
+    const file = join(dir, 'config.json5')
+    writeFileSync(file, '{ port: 1 }')
+    const v = new Viper()
+    v.setConfigFile(file)
+    v.readInConfig()
+    const failure = new Error('listener failed')
+    const errors: unknown[] = []
+    v.onConfigChange(() => {
+      throw failure
+    })
+    const changed = nextChange(v)
+    stop = v.watchConfig({ debounce: 20, onError: err => errors.push(err) })
+    writeFileSync(file, '{ port: 2 }')
+    expect(await changed).toEqual({ port: 2 })
+    expect(errors).toEqual([failure])
+  })
+
+  it('follows atomic replaces done by writeConfig', async () => {
+    const file = join(dir, 'config.json5')
+    writeFileSync(file, '{ port: 1 }')
+    const writer = new Viper()
+    const v = new Viper()
+    v.setConfigFile(file)
+    v.readInConfig()
+    stop = v.watchConfig({ debounce: 20 })
+
+    let changed = nextChange(v)
+    writer.set('port', 2)
+    await writer.writeConfigAs(file)
+    await changed
+    expect(v.get('port')).toBe(2)
+
+    changed = nextChange(v)
+    writer.set('port', 3)
+    await writer.writeConfigAs(file)
+    await changed
+    expect(v.get('port')).toBe(3)
+  })
+
+  it('keeps the previous config when the new one is invalid', async () => {
+    const file = join(dir, 'config.json5')
+    writeFileSync(file, '{ port: 1 }')
+    const v = new Viper({ schema: z.object({ port: z.number() }) })
+    v.setConfigFile(file)
+    v.readInConfig()
+    const failed = new Promise(resolve => stop = v.watchConfig({ debounce: 20, onError: resolve }))
+    writeFileSync(file, '{ port: "nope" }')
+    expect(await failed).toBeInstanceOf(Error)
+    expect(v.get('port')).toBe(1)
+  })
+
+  it('picks up new drop-in fragments', async () => {
+    const confd = join(dir, 'conf.d')
+    mkdirSync(confd)
+    writeFileSync(join(confd, '10-a.json5'), '{ a: 1 }')
+    const v = new Viper()
+    v.addConfigDir(confd)
+    v.readInConfig()
+    stop = v.watchConfig({ debounce: 20 })
+    const changed = nextChange(v)
+    writeFileSync(join(confd, '20-b.json5'), '{ b: 2 }')
+    expect(await changed).toEqual({ a: 1, b: 2 })
+  })
+
+  it('stops notifying after the disposer runs', async () => {
+    const file = join(dir, 'config.json5')
+    writeFileSync(file, '{ port: 1 }')
+    const v = new Viper()
+    v.setConfigFile(file)
+    v.readInConfig()
+    let calls = 0
+    v.onConfigChange(() => calls++)
+    v.watchConfig({ debounce: 20 })()
+    writeFileSync(file, '{ port: 2 }')
+    await new Promise(resolve => setTimeout(resolve, 150))
+    expect(calls).toBe(0)
+    expect(v.get('port')).toBe(1)
+  })
+
+  it('requires a config file to have been read', () => {
+    expect(() => new Viper().watchConfig()).toThrow('call readInConfig() first')
+  })
+})
+
+// ─── Remote config ───────────────────────────────────────────────────
+
+describe('remote config', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('reads remote data between defaults and config', async () => {
+    const v = new Viper()
+    v.setDefault('port', 1)
+    v.addRemoteProvider(new MemoryProvider({ 'app/config': '{ Port: 2, host: "remote" }' }), 'app/config')
+    await v.readRemoteConfig()
+    expect(v.get('port')).toBe(2)
+    v.mergeConfigMap({ host: 'file' })
+    expect(v.get('host')).toBe('file')
+    expect(v.allSettings()).toEqual({ port: 2, host: 'file' })
+  })
+
+  it('picks the format from the path or the type option', async () => {
+    const provider = new MemoryProvider({ 'db.yaml': 'db:\n  host: h\n', 'flags': 'beta = true\n' })
+    const v = new Viper()
+    v.addRemoteProvider(provider, 'db.yaml')
+    v.addRemoteProvider(provider, 'flags', { type: 'toml' })
+    await v.readRemoteConfig()
+    expect(v.allSettings()).toEqual({ db: { host: 'h' }, beta: true })
+  })
+
+  it('merges providers in order', async () => {
+    const v = new Viper()
+    v.addRemoteProvider(new MemoryProvider({ p: '{ a: 1, b: 1 }' }), 'p')
+    v.addRemoteProvider(new MemoryProvider({ p: '{ b: 2 }' }), 'p')
+    await v.readRemoteConfig()
+    expect(v.allSettings()).toEqual({ a: 1, b: 2 })
+  })
+
+  it('keeps the last good values when validation fails', async () => {
+    const provider = new MemoryProvider({ p: '{ port: 1 }' })
+    const v = new Viper({ schema: z.object({ port: z.number() }) })
+    v.addRemoteProvider(provider, 'p')
+    await v.readRemoteConfig()
+    provider.set('p', '{ port: "nope" }')
+    await expect(v.readRemoteConfig()).rejects.toThrow()
+    expect(v.get('port')).toBe(1)
+  })
+
+  it('a hung provider does not hold up other loads', async () => {
+    const hung = { get: () => new Promise<string>(() => {}) }
+    const v = new Viper()
+    v.addRemoteProvider(hung, 'p', { timeout: 50 })
+    const remote = v.readRemoteConfig()
+    await v.readConfig('{ a: 1 }')
+    expect(v.get('a')).toBe(1)
+    await expect(remote).rejects.toThrow('remote config timed out after 50ms: p')
+  })
+
+  it('a slower earlier read does not overwrite a later one', async () => {
+    const pending: Array<(doc: string) => void> = []
+    const provider = { get: () => new Promise<string>(resolve => pending.push(resolve)) }
+    const v = new Viper()
+    v.addRemoteProvider(provider, 'p')
+    const first = v.readRemoteConfig()
+    const second = v.readRemoteConfig()
+    pending[1]('{ v: 2 }')
+    await second
+    pending[0]('{ v: 1 }')
+    await first
+    expect(v.get('v')).toBe(2)
+  })
+
+  it('watchRemoteConfig skips ticks while a poll is running', async () => {
+    vi.useFakeTimers()
+    let calls = 0
+    const provider = { get: () => {
+      calls++
+      return new Promise<string>(() => {})
+    } }
+    const v = new Viper()
+    v.addRemoteProvider(provider, 'p', { timeout: 60_000 })
+    const stop = v.watchRemoteConfig({ interval: 1000 })
+    await vi.advanceTimersByTimeAsync(5000)
+    stop()
+    expect(calls).toBe(1)
+  })
+
+  it('throws without providers', async () => {
+    await expect(new Viper().readRemoteConfig()).rejects.toThrow('no remote providers configured')
+  })
+
+  it('watchRemoteConfig polls until stopped', async () => {
+    vi.useFakeTimers()
+    const provider = new MemoryProvider({ p: '{ v: 1 }' })
+    const v = new Viper()
+    v.addRemoteProvider(provider, 'p')
+    await v.readRemoteConfig()
+    const stop = v.watchRemoteConfig({ interval: 1000 })
+
+    provider.set('p', '{ v: 2 }')
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(v.get('v')).toBe(2)
+
+    stop()
+    provider.set('p', '{ v: 3 }')
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(v.get('v')).toBe(2)
+  })
+
+  it('watchRemoteConfig reports poll errors and keeps values', async () => {
+    vi.useFakeTimers()
+    const provider = new MemoryProvider({ p: '{ v: 1 }' })
+    const errors: unknown[] = []
+    const v = new Viper()
+    v.addRemoteProvider(provider, 'p')
+    await v.readRemoteConfig()
+    const stop = v.watchRemoteConfig({ interval: 1000, onError: err => errors.push(err) })
+    provider.delete('p')
+    await vi.advanceTimersByTimeAsync(1000)
+    stop()
+    expect(errors).toHaveLength(1)
+    expect(v.get('v')).toBe(1)
+  })
+})
+
+// ─── Transactional reload ────────────────────────────────────────────
+
+describe('transactional reload', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = makeTmpDir()
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('applies the new file and records the time', async () => {
+    const file = join(dir, 'config.json5')
+    writeFileSync(file, '{ port: 1 }')
+    const v = new Viper()
+    v.setConfigFile(file)
+    v.readInConfig()
+    writeFileSync(file, '{ port: 2 }')
+    expect(await v.reload()).toBe(true)
+    expect(v.get('port')).toBe(2)
+    const status = v.reloadStatus()
+    expect(status.ok).toBe(true)
+    expect(status.lastError).toBeUndefined()
+    expect(status.lastGoodAt).toBeInstanceOf(Date)
+  })
+
+  it('keeps the previous config when parsing fails', async () => {
+    const file = join(dir, 'config.json5')
+    writeFileSync(file, '{ port: 1 }')
+    const v = new Viper()
+    v.setConfigFile(file)
+    v.readInConfig()
+    const goodAt = v.reloadStatus().lastGoodAt
+    const events: unknown[] = []
+    v.onReloadError(event => events.push(event))
+    writeFileSync(file, '{ port: ')
+    expect(await v.reload()).toBe(false)
+    expect(v.get('port')).toBe(1)
+    expect(events).toHaveLength(1)
+    const status = v.reloadStatus()
+    expect(status.ok).toBe(false)
+    expect(status.lastError).toMatchObject({ phase: 'load' })
+    expect(status.lastError!.at).toBeInstanceOf(Date)
+    expect(status.lastGoodAt).toBe(goodAt)
+  })
+
+  it('reports schema issues and keeps the previous config', async () => {
+    const file = join(dir, 'config.json5')
+    writeFileSync(file, '{ port: 1 }')
+    const v = new Viper({ schema: z.object({ port: z.number() }) })
+    v.setConfigFile(file)
+    v.readInConfig()
+    writeFileSync(file, '{ port: "nope" }')
+    expect(await v.reload()).toBe(false)
+    expect(v.get('port')).toBe(1)
+    const { lastError } = v.reloadStatus()
+    expect(lastError?.phase).toBe('validate')
+    expect(lastError?.issues?.[0]?.path).toEqual(['port'])
+  })
+
+  it('clears the error after a successful reload', async () => {
+    const file = join(dir, 'config.json5')
+    writeFileSync(file, '{ port: 1 }')
+    const v = new Viper()
+    v.setConfigFile(file)
+    v.readInConfig()
+    writeFileSync(file, '{ port: ')
+    await v.reload()
+    writeFileSync(file, '{ port: 3 }')
+    expect(await v.reload()).toBe(true)
+    expect(v.reloadStatus()).toMatchObject({ ok: true, lastError: undefined })
+    expect(v.get('port')).toBe(3)
+  })
+
+  it('applies file and remote together or not at all', async () => {
+    const file = join(dir, 'config.json5')
+    writeFileSync(file, '{ port: 1 }')
+    const provider = new MemoryProvider({ p: '{ host: "a" }' })
+    const v = new Viper({ schema: z.object({ port: z.number(), host: z.string() }).partial() })
+    v.setConfigFile(file)
+    v.addRemoteProvider(provider, 'p')
+    v.readInConfig()
+    await v.readRemoteConfig()
+
+    writeFileSync(file, '{ port: 2 }')
+    provider.set('p', '{ host: 5 }')
+    expect(await v.reload()).toBe(false)
+    expect(v.allSettings()).toEqual({ host: 'a', port: 1 })
+
+    provider.set('p', '{ host: "b" }')
+    expect(await v.reload()).toBe(true)
+    expect(v.allSettings()).toEqual({ host: 'b', port: 2 })
+  })
+
+  it('a throwing change listener does not fail a reload that was applied', async () => {
+    const file = join(dir, 'config.json5')
+    const next = join(dir, 'next.json5')
+    writeFileSync(file, '{ a: 1 }')
+    writeFileSync(next, '{ a: 2 }')
+    const v = new Viper()
+    v.setConfigFile(file)
+    v.readInConfig()
+    const failure = new Error('listener failed')
+    const events: ReloadErrorEvent[] = []
+    const other = vi.fn()
+    v.onChange('a', () => {
+      throw failure
+    })
+    v.onChange('a', other)
+    v.onReloadError(event => events.push(event))
+    v.setConfigFile(next)
+    expect(await v.reload()).toBe(true)
+    expect(v.get('a')).toBe(2)
+    expect(v.configFileUsed()).toBe(next)
+    expect(v.reloadStatus().ok).toBe(true)
+    expect(other).toHaveBeenCalledWith(2, 1)
+    expect(events).toMatchObject([{ phase: 'notify', error: failure }])
+  })
+
+  it('a throwing onReloadError listener does not escape', async () => {
+    const file = join(dir, 'config.json5')
+    writeFileSync(file, '{ a: 1 }')
+    const v = new Viper()
+    v.setConfigFile(file)
+    v.readInConfig()
+    const second = vi.fn()
+    v.onReloadError(() => {
+      throw new Error('listener failed')
+    })
+    v.onReloadError(second)
+    writeFileSync(file, '{ a: ')
+    expect(await v.reload()).toBe(false)
+    expect(second).toHaveBeenCalledTimes(1)
+    expect(v.reloadStatus().ok).toBe(false)
+  })
+
+  it('stops notifying after unsubscribe', async () => {
+    const file = join(dir, 'config.json5')
+    writeFileSync(file, '{ port: 1 }')
+    const v = new Viper()
+    v.setConfigFile(file)
+    v.readInConfig()
+    const listener = vi.fn()
+    const off = v.onReloadError(listener)
+    off()
+    writeFileSync(file, '{ port: ')
+    await v.reload()
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
+
+// ─── Write operations ────────────────────────────────────────────────
+
+describe('write operations', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = makeTmpDir()
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('writeConfig writes current settings', async () => {
+    const file = join(dir, 'config.json5')
+    writeFileSync(file, '{}')
+    const v = new Viper()
+    v.setConfigFile(file)
+    v.readInConfig()
+    v.set('host', 'localhost')
+    await v.writeConfig()
+    const v2 = new Viper()
+    v2.setConfigFile(file)
+    v2.readInConfig()
+    expect(v2.get('host')).toBe('localhost')
+  })
+
+  it('writeConfig keeps comments and formatting of a JSON5 file', async () => {
+    const file = join(dir, 'config.json5')
+    writeFileSync(file, '{\n  // listen address\n  Host: "localhost", // local only\n  port: 3000,\n}\n')
+    const v = new Viper()
+    v.setConfigFile(file)
+    v.readInConfig()
+    v.set('port', 8080)
+    v.set('debug', true)
+    await v.writeConfig()
+    expect(readFileSync(file, 'utf-8')).toBe(
+      '{\n  // listen address\n  Host: "localhost", // local only\n  port: 8080,\n  debug: true,\n}\n',
+    )
+  })
+
+  it('writeConfig rewrites a file that cannot be edited in place', async () => {
+    const file = join(dir, 'config.json5')
+    writeFileSync(file, 'not json5 at all')
+    const v = new Viper()
+    v.setConfigFile(file)
+    v.set('key', 'value')
+    await v.writeConfig()
+    expect(readFileSync(file, 'utf-8')).toBe('{\n  key: \'value\',\n}\n')
+  })
+
+  it('writeConfigAs persists only the chosen layers', async () => {
+    const file = join(dir, 'output.json5')
+    const v = new Viper()
+    v.setDefault('port', 3000)
+    v.mergeConfigMap({ host: 'localhost' })
+    v.bindEnv('database.password', 'TEST_WRITE_DB_PASSWORD')
+    v.setDefault('database.password', '')
+    v.set('debug', true)
+    process.env.TEST_WRITE_DB_PASSWORD = 'secret'
+    try {
+      await v.writeConfigAs(file, { layers: ['config', 'overrides'] })
+    }
+    finally {
+      delete process.env.TEST_WRITE_DB_PASSWORD
+    }
+    expect(readFileSync(file, 'utf-8')).not.toContain('secret')
+    const v2 = new Viper()
+    v2.setConfigFile(file)
+    v2.readInConfig()
+    expect(v2.allSettings()).toEqual({ host: 'localhost', debug: true })
+  })
+
+  it('writeConfigAs with omitDefaults skips values equal to defaults', async () => {
+    const file = join(dir, 'output.json5')
+    const v = new Viper()
+    v.setDefaults({ host: 'localhost', db: { port: 5432, pool: 5 } })
+    v.mergeConfigMap({ host: 'localhost', db: { pool: 10 } })
+    await v.writeConfigAs(file, { omitDefaults: true })
+    const v2 = new Viper()
+    v2.setConfigFile(file)
+    v2.readInConfig()
+    expect(v2.allSettings()).toEqual({ db: { pool: 10 } })
+  })
+
+  it('safeWriteConfigAs accepts write options', async () => {
+    const file = join(dir, 'safe-layers.json5')
+    const v = new Viper()
+    v.setDefault('port', 3000)
+    v.set('host', 'h')
+    await v.safeWriteConfigAs(file, { layers: ['overrides'] })
+    expect(readFileSync(file, 'utf-8')).toBe('{\n  host: \'h\',\n}\n')
+  })
+
+  it('writes custom layers in their configured order', async () => {
+    const file = join(dir, 'custom-layers.json5')
+    const v = new Viper()
+    v.mergeConfigMap({ a: 'config', b: 'config' })
+    v.addLayer('user', { a: 'user' }, { above: 'config' })
+    v.addLayer('cluster', { b: 'cluster', c: 'cluster' }, { below: 'config' })
+    await v.writeConfigAs(file)
+    expect(json5.parse(readFileSync(file, 'utf-8'))).toEqual({ a: 'user', b: 'config', c: 'cluster' })
+    await v.writeConfigAs(file, { layers: ['user'] })
+    expect(json5.parse(readFileSync(file, 'utf-8'))).toEqual({ a: 'user' })
+    await expect(v.writeConfigAs(file, { layers: ['missing'] })).rejects.toThrow('unknown config layer')
+  })
+
+  it('validates the effective config when writing a subset of layers', async () => {
+    const file = join(dir, 'output.json5')
+    const v = new Viper({ schema: z.object({ port: z.number() }) })
+    v.setDefault('port', 3000)
+    await v.writeConfigAs(file, { layers: ['config'] })
+    expect(readFileSync(file, 'utf-8')).toBe('{}\n')
+    v.set('port', 'nope')
+    await expect(v.writeConfigAs(file, { layers: ['config'] })).rejects.toThrow()
+  })
+
+  it('writeConfig throws when no config file set', async () => {
+    const v = new Viper()
+    v.set('key', 'value')
+    await expect(v.writeConfig()).rejects.toThrow('no config file set')
+  })
+
+  it('writeConfigAs writes to specific path', async () => {
+    const file = join(dir, 'output.json5')
+    const v = new Viper()
+    v.set('key', 'value')
+    await v.writeConfigAs(file)
+    const v2 = new Viper()
+    v2.setConfigFile(file)
+    v2.readInConfig()
+    expect(v2.get('key')).toBe('value')
+  })
+
+  it('writeConfigAs writes all layers merged', async () => {
     const file = join(dir, 'output.json5')
     const v = new Viper()
     v.setDefault('a', 1)
@@ -860,6 +2706,204 @@ describe('write operations', () => {
   })
 })
 
+// ─── YAML config files ───────────────────────────────────────────────
+
+describe('yaml config files', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = makeTmpDir()
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('readInConfig discovers and parses YAML via setConfigType', () => {
+    writeFileSync(join(dir, 'config.yaml'), 'Host: localhost\nDatabase:\n  Port: 5432\n')
+    const v = new Viper()
+    v.setConfigType('yaml')
+    v.addConfigPath(dir)
+    v.readInConfig()
+    expect(v.configFileUsed()).toBe(join(dir, 'config.yaml'))
+    expect(v.get('host')).toBe('localhost')
+    expect(v.get('database.port')).toBe(5432)
+  })
+
+  it('applies YAML merge keys', () => {
+    writeFileSync(join(dir, 'config.yaml'), 'base: &base\n  host: h\n  port: 80\nprod:\n  <<: *base\n  port: 1\n')
+    const v = new Viper()
+    v.setConfigFile(join(dir, 'config.yaml'))
+    v.readInConfig()
+    expect(v.get('prod')).toEqual({ host: 'h', port: 1 })
+  })
+
+  it('mergeInConfig merges YAML into existing config', () => {
+    writeFileSync(join(dir, 'config.yml'), 'database:\n  host: db.local\n')
+    const v = new Viper()
+    v.mergeConfigMap({ database: { port: 5432 } })
+    v.setConfigType('yml')
+    v.addConfigPath(dir)
+    v.mergeInConfig()
+    expect(v.getObject('database')).toEqual({ host: 'db.local', port: 5432 })
+  })
+
+  it('validates YAML config against the schema', () => {
+    writeFileSync(join(dir, 'config.yaml'), 'port: not-a-number\n')
+    const v = new Viper({ schema: z.object({ port: z.number() }) })
+    v.setConfigType('yaml')
+    v.addConfigPath(dir)
+    expect(() => v.readInConfig()).toThrow()
+  })
+
+  it('writeConfig writes YAML back to a .yaml file', async () => {
+    const file = join(dir, 'config.yaml')
+    writeFileSync(file, 'host: localhost\n')
+    const v = new Viper()
+    v.setConfigFile(file)
+    v.readInConfig()
+    v.set('port', 8080)
+    await v.writeConfig()
+    expect(readFileSync(file, 'utf-8')).toBe('host: localhost\nport: 8080\n')
+  })
+
+  it('writeConfigAs picks the format from the target extension', async () => {
+    const file = join(dir, 'out.yml')
+    const v = new Viper()
+    v.set('key', 'value')
+    await v.writeConfigAs(file)
+    expect(readFileSync(file, 'utf-8')).toBe('key: value\n')
+  })
+})
+
+// ─── TOML config files ───────────────────────────────────────────────
+
+describe('toml config files', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = makeTmpDir()
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('readInConfig discovers and parses TOML via setConfigType', () => {
+    writeFileSync(join(dir, 'config.toml'), 'Host = "localhost"\n\n[Database]\nPort = 5432\n')
+    const v = new Viper()
+    v.setConfigType('toml')
+    v.addConfigPath(dir)
+    v.readInConfig()
+    expect(v.configFileUsed()).toBe(join(dir, 'config.toml'))
+    expect(v.get('host')).toBe('localhost')
+    expect(v.get('database.port')).toBe(5432)
+  })
+
+  it('mergeInConfig merges TOML into existing config', () => {
+    writeFileSync(join(dir, 'config.toml'), '[database]\nhost = "db.local"\n')
+    const v = new Viper()
+    v.mergeConfigMap({ database: { port: 5432 } })
+    v.setConfigType('toml')
+    v.addConfigPath(dir)
+    v.mergeInConfig()
+    expect(v.getObject('database')).toEqual({ host: 'db.local', port: 5432 })
+  })
+
+  it('round-trips TOML through writeConfigAs', async () => {
+    const file = join(dir, 'out.toml')
+    const v = new Viper()
+    v.set('servers', [{ name: 'alpha' }, { name: 'beta' }])
+    v.set('started', new Date('2024-01-02T03:04:05Z'))
+    await v.writeConfigAs(file)
+    const v2 = new Viper()
+    v2.setConfigFile(file)
+    v2.readInConfig()
+    expect(v2.getArray('servers')).toEqual([{ name: 'alpha' }, { name: 'beta' }])
+    expect(v2.get('started')).toEqual(new Date('2024-01-02T03:04:05Z'))
+  })
+
+  it('writes TOML local dates and times back unquoted', async () => {
+    const file = join(dir, 'local.toml')
+    writeFileSync(file, 'day = 1979-05-27\nat = 07:32:00\n')
+    const v = new Viper()
+    v.setConfigFile(file)
+    v.readInConfig()
+    const out = join(dir, 'local-out.toml')
+    await v.writeConfigAs(out)
+    const written = readFileSync(out, 'utf-8')
+    expect(written).toContain('day = 1979-05-27\n')
+    expect(written).toContain('at = 07:32:00.000\n')
+  })
+})
+
+// ─── Codecs ──────────────────────────────────────────────────────────
+
+describe('codecs', () => {
+  let dir: string
+
+  const ini = {
+    parse: (raw: string) => Object.fromEntries(
+      raw.split('\n').filter(Boolean).map(line => line.split('=').map(s => s.trim())),
+    ),
+    stringify: (settings: Record<string, unknown>) =>
+      Object.entries(settings).map(([k, v]) => `${k} = ${v}\n`).join(''),
+  }
+
+  beforeEach(() => {
+    dir = makeTmpDir()
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('instance codec drives readInConfig and writeConfig', async () => {
+    const file = join(dir, 'config.ini')
+    writeFileSync(file, 'Host = localhost\n')
+    const v = new Viper()
+    v.registerCodec('ini', ini)
+    v.setConfigType('ini')
+    v.addConfigPath(dir)
+    v.readInConfig()
+    expect(v.get('host')).toBe('localhost')
+    v.set('port', 8080)
+    await v.writeConfig()
+    expect(readFileSync(file, 'utf-8')).toBe('host = localhost\nport = 8080\n')
+  })
+
+  it('instance codecs are not shared with other instances', () => {
+    const file = join(dir, 'config.ini')
+    writeFileSync(file, 'host = localhost\n')
+    const v = new Viper()
+    v.registerCodec('ini', ini)
+    const other = new Viper()
+    other.setConfigFile(file)
+    other.setConfigType('ini')
+    expect(() => other.readInConfig()).toThrow('unsupported config type: ini')
+  })
+
+  it('picks the codec from the extension of setConfigFile', () => {
+    const file = join(dir, 'app.conf')
+    writeFileSync(file, 'host = localhost\n')
+    const v = new Viper()
+    v.registerCodec('conf', { ...ini, extensions: ['conf', 'cfg'] })
+    v.setConfigFile(file)
+    v.readInConfig()
+    expect(v.get('host')).toBe('localhost')
+  })
+
+  it('global registerCodec applies to every instance', () => {
+    registerCodec('props', { ...ini, extensions: ['properties'] })
+    const file = join(dir, 'app.properties')
+    writeFileSync(file, 'name = app\n')
+    const v = createViper()
+    v.setConfigFile(file)
+    v.readInConfig()
+    expect(v.get('name')).toBe('app')
+  })
+})
+
 // ─── Zod validation ──────────────────────────────────────────────────
 
 describe('zod validation', () => {
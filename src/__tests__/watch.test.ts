@@ -0,0 +1,72 @@
+import { mkdirSync, renameSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { DirectoryWatcher } from '../watch'
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+describe('directoryWatcher', () => {
+  let dir: string
+  let watcher: DirectoryWatcher | undefined
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `viper-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    mkdirSync(dir, { recursive: true })
+  })
+
+  afterEach(() => {
+    watcher?.close()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('debounces a burst of events into one call', async () => {
+    let calls = 0
+    watcher = new DirectoryWatcher(() => calls++, 50)
+    watcher.update(new Map([[dir, name => name === 'config.json5']]))
+    for (let i = 0; i < 5; i++) writeFileSync(join(dir, 'config.json5'), `{ i: ${i} }`)
+    await sleep(200)
+    expect(calls).toBe(1)
+  })
+
+  it('sees rename-style replaces', async () => {
+    let calls = 0
+    writeFileSync(join(dir, 'config.json5'), '{}')
+    watcher = new DirectoryWatcher(() => calls++, 20)
+    watcher.update(new Map([[dir, name => name === 'config.json5']]))
+    writeFileSync(join(dir, 'config.json5.tmp'), '{ a: 1 }')
+    renameSync(join(dir, 'config.json5.tmp'), join(dir, 'config.json5'))
+    await sleep(150)
+    expect(calls).toBe(1)
+    writeFileSync(join(dir, 'config.json5'), '{ a: 2 }')
+    await sleep(150)
+    expect(calls).toBe(2)
+  })
+
+  it('ignores files rejected by the filter', async () => {
+    let calls = 0
+    watcher = new DirectoryWatcher(() => calls++, 20)
+    watcher.update(new Map([[dir, name => name === 'config.json5']]))
+    writeFileSync(join(dir, 'other.json5'), '{}')
+    await sleep(150)
+    expect(calls).toBe(0)
+  })
+
+  it('stops after close', async () => {
+    let calls = 0
+    watcher = new DirectoryWatcher(() => calls++, 20)
+    watcher.update(new Map([[dir, () => true]]))
+    watcher.close()
+    writeFileSync(join(dir, 'config.json5'), '{}')
+    await sleep(150)
+    expect(calls).toBe(0)
+    expect(watcher.closed).toBe(true)
+  })
+
+  it('skips missing directories', () => {
+    watcher = new DirectoryWatcher(() => {}, 20)
+    expect(() => watcher!.update(new Map([[join(dir, 'missing'), () => true]]))).not.toThrow()
+  })
+})
@@ -0,0 +1,138 @@
+import { extname } from 'node:path'
+import json5 from 'json5'
+import * as toml from 'smol-toml'
+import yaml from 'yaml'
+import { updateJson5Source } from './edit'
+
+export interface Codec {
+  parse: (raw: string) => unknown
+  stringify: (settings: Record<string, unknown>) => string
+  /**
+   * Optionally apply settings to the existing file text instead of
+   * re-serializing it, so comments and formatting survive a write.
+   */
+  update?: (source: string, settings: Record<string, unknown>) => string
+  /** File extensions without the dot. Defaults to the codec name. */
+  extensions?: string[]
+}
+
+export class CodecRegistry {
+  private codecs: Map<string, Codec> = new Map()
+  private parent?: CodecRegistry
+
+  constructor(parent?: CodecRegistry) {
+    this.parent = parent
+  }
+
+  register(name: string, codec: Codec): void {
+    const ln = name.toLowerCase()
+    this.codecs.delete(ln)
+    this.codecs.set(ln, codec)
+  }
+
+  /**
+   * Look up a codec by name or extension. Own codecs shadow the parent's,
+   * and among own codecs the most recently registered wins.
+   */
+  get(type: string): Codec | undefined {
+    const lt = type.toLowerCase()
+    const byName = this.codecs.get(lt)
+    if (byName)
+      return byName
+    const own = [...this.codecs.entries()].reverse()
+    for (const [name, codec] of own) {
+      if (extensionsOf(name, codec).includes(lt))
+        return codec
+    }
+    return this.parent?.get(lt)
+  }
+
+  resolve(type: string): Codec {
+    const codec = this.get(type)
+    if (!codec) {
+      throw new Error(`unsupported config type: ${type}`)
+    }
+    return codec
+  }
+
+  has(type: string): boolean {
+    return this.get(type) !== undefined
+  }
+
+  /** All known extensions, parent's first, in registration order. */
+  extensions(): string[] {
+    const exts = new Set(this.parent?.extensions())
+    for (const [name, codec] of this.codecs) {
+      for (const ext of extensionsOf(name, codec)) exts.add(ext)
+    }
+    return [...exts]
+  }
+
+  /**
+   * Resolve the format of a config file: a known file extension wins,
+   * otherwise `fallback` (usually the configured config type) is used.
+   */
+  typeFor(path: string, fallback: string): string {
+    const ext = extname(path).slice(1).toLowerCase()
+    return ext && this.has(ext) ? ext : fallback.toLowerCase()
+  }
+}
+
+function extensionsOf(name: string, codec: Codec): string[] {
+  return (codec.extensions ?? [name]).map(ext => ext.replace(/^\./, '').toLowerCase())
+}
+
+/**
+ * TOML offset date-times become plain `Date`s. Local dates, times and
+ * date-times have no instant, so they stay `TomlDate`s, which `stringify`
+ * writes back unquoted and other codecs serialize as their TOML text.
+ */
+function fromToml(value: unknown): unknown {
+  if (value instanceof toml.TomlDate) {
+    return value.isDateTime() && !value.isLocal()
+      ? new Date(value.getTime())
+      : value
+  }
+  if (Array.isArray(value)) {
+    return value.map(fromToml)
+  }
+  if (value !== null && typeof value === 'object') {
+    const result: Record<string, unknown> = {}
+    for (const key of Object.keys(value)) {
+      result[key] = fromToml((value as Record<string, unknown>)[key])
+    }
+    return result
+  }
+  return value
+}
+
+export const globalCodecs: CodecRegistry = new CodecRegistry()
+
+globalCodecs.register('json5', {
+  parse: raw => json5.parse(raw),
+  stringify: settings => json5.stringify(settings, null, 2).trimEnd().concat('\n'),
+  update: (source, settings) => updateJson5Source(source, settings),
+})
+
+globalCodecs.register('json', {
+  parse: raw => json5.parse(raw),
+  stringify: settings => JSON.stringify(settings, null, 2).concat('\n'),
+  update: (source, settings) => updateJson5Source(source, settings, { json: true }),
+})
+
+globalCodecs.register('yaml', {
+  // Merge keys (`<<: *defaults`) are common in deployment manifests
+  parse: raw => yaml.parse(raw, { merge: true }),
+  stringify: settings => yaml.stringify(settings),
+  extensions: ['yaml', 'yml'],
+})
+
+globalCodecs.register('toml', {
+  parse: raw => fromToml(toml.parse(raw)),
+  stringify: settings => toml.stringify(settings).trimEnd().concat('\n'),
+})
+
+/** Register a codec for every `Viper` instance. */
+export function registerCodec(name: string, codec: Codec): void {
+  globalCodecs.register(name, codec)
+}
@@ -0,0 +1,448 @@
+import json5 from 'json5'
+import { isDeepEqual, isPlainObject } from './keys'
+
+interface ValueNode {
+  kind: 'value'
+  start: number
+  end: number
+  value: unknown
+}
+
+interface ArrayNode {
+  kind: 'array'
+  start: number
+  end: number
+  items: Node[]
+  value: unknown[]
+}
+
+interface ObjectNode {
+  kind: 'object'
+  start: number
+  end: number
+  members: Member[]
+  value: Record<string, unknown>
+}
+
+type Node = ValueNode | ArrayNode | ObjectNode
+
+interface Member {
+  key: string
+  start: number
+  node: Node
+  /** Offset of the comma following the member, if any. */
+  comma?: number
+}
+
+interface Edit {
+  start: number
+  end: number
+  text: string
+}
+
+interface EditContext {
+  src: string
+  json: boolean
+  unit: string
+  quote: string
+  eol: string
+  edits: Edit[]
+}
+
+export interface UpdateSourceOptions {
+  /** Emit strict JSON for new and changed values (quoted keys, no trailing commas). */
+  json?: boolean
+}
+
+const IDENT = /(?:[$\p{ID_Continue}\u200C\u200D]|\\u[0-9a-f]{4})+/iuy
+const SCALAR = /[^\s,:\]}/]+/y
+const IDENT_NAME = /^[$_\p{ID_Start}][$\p{ID_Continue}\u200C\u200D]*$/u
+
+/**
+ * Apply `next` to JSON5 `source`, touching only the spans whose values
+ * changed. Comments, key order, quoting and whitespace elsewhere survive.
+ * Keys are matched case-insensitively, like the config layer itself.
+ */
+export function updateJson5Source(
+  source: string,
+  next: Record<string, unknown>,
+  options?: UpdateSourceOptions,
+): string {
+  const root = parseTree(source)
+  if (root.node.kind !== 'object') {
+    throw new Error('config source must contain an object')
+  }
+  const ctx: EditContext = {
+    src: source,
+    json: options?.json ?? false,
+    unit: detectIndent(source, root.node),
+    quote: root.quote ?? (options?.json ? '"' : '\''),
+    eol: source.includes('\r\n') ? '\r\n' : '\n',
+    edits: [],
+  }
+  updateNode(ctx, root.node, next)
+
+  let result = source
+  for (const edit of ctx.edits.sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end)
+  }
+
+  if (!sameConfig(json5.parse(result), next)) {
+    throw new Error('in-place config update did not round-trip')
+  }
+  return result
+}
+
+// --- Parsing ---
+
+function parseTree(src: string): { node: Node, quote?: string } {
+  let pos = 0
+  let quote: string | undefined
+
+  function skip(): void {
+    while (pos < src.length) {
+      if (src.startsWith('//', pos)) {
+        const nl = src.indexOf('\n', pos)
+        pos = nl === -1 ? src.length : nl
+      }
+      else if (src.startsWith('/*', pos)) {
+        const close = src.indexOf('*/', pos + 2)
+        pos = close === -1 ? src.length : close + 2
+      }
+      else if (/\s/.test(src[pos])) {
+        pos++
+      }
+      else {
+        break
+      }
+    }
+  }
+
+  function scanString(): string {
+    const start = pos
+    const q = src[pos]
+    quote ??= q
+    pos++
+    while (pos < src.length && src[pos] !== q) {
+      if (src[pos] === '\\')
+        pos++
+      pos++
+    }
+    pos++
+    return src.slice(start, pos)
+  }
+
+  function expect(ch: string): void {
+    skip()
+    if (src[pos] !== ch) {
+      throw new SyntaxError(`expected "${ch}" at offset ${pos}`)
+    }
+    pos++
+  }
+
+  function parseKey(): string {
+    if (src[pos] === '"' || src[pos] === '\'') {
+      return json5.parse(scanString()) as string
+    }
+    IDENT.lastIndex = pos
+    const m = IDENT.exec(src)
+    if (!m) {
+      throw new SyntaxError(`invalid key at offset ${pos}`)
+    }
+    pos += m[0].length
+    return m[0].includes('\\')
+      ? Object.keys(json5.parse(`{${m[0]}:0}`))[0]
+      : m[0]
+  }
+
+  function parseValue(): Node {
+    skip()
+    const start = pos
+    const ch = src[pos]
+
+    if (ch === '{') {
+      pos++
+      const members: Member[] = []
+      const value: Record<string, unknown> = {}
+      for (;;) {
+        skip()
+        if (src[pos] === '}')
+          break
+        const memberStart = pos
+        const key = parseKey()
+        expect(':')
+        const node = parseValue()
+        const member: Member = { key, start: memberStart, node }
+        skip()
+        if (src[pos] === ',') {
+          member.comma = pos
+          pos++
+        }
+        members.push(member)
+        value[key] = node.value
+        if (member.comma === undefined) {
+          skip()
+          break
+        }
+      }
+      expect('}')
+      return { kind: 'object', start, end: pos, members, value }
+    }
+
+    if (ch === '[') {
+      pos++
+      const items: Node[] = []
+      for (;;) {
+        skip()
+        if (src[pos] === ']')
+          break
+        items.push(parseValue())
+        skip()
+        if (src[pos] !== ',')
+          break
+        pos++
+      }
+      expect(']')
+      return { kind: 'array', start, end: pos, items, value: items.map(item => item.value) }
+    }
+
+    let text: string
+    if (ch === '"' || ch === '\'') {
+      text = scanString()
+    }
+    else {
+      SCALAR.lastIndex = pos
+      text = SCALAR.exec(src)?.[0] ?? ''
+      pos += text.length
+    }
+    return { kind: 'value', start, end: pos, value: json5.parse(text) }
+  }
+
+  const node = parseValue()
+  skip()
+  if (pos < src.length) {
+    throw new SyntaxError(`unexpected content at offset ${pos}`)
+  }
+  return { node, quote }
+}
+
+// --- Editing ---
+
+function updateNode(ctx: EditContext, node: Node, next: unknown): void {
+  if (sameConfig(node.value, next))
+    return
+  if (node.kind === 'object' && isPlainObject(next)) {
+    updateObject(ctx, node, next)
+    return
+  }
+  if (node.kind === 'array' && Array.isArray(next) && next.length === node.items.length) {
+    node.items.forEach((item, i) => updateNode(ctx, item, next[i]))
+    return
+  }
+  replaceNode(ctx, node, next)
+}
+
+function replaceNode(ctx: EditContext, node: Node, next: unknown): void {
+  // Keep the quote style of a string that is being replaced
+  const quote = node.kind === 'value' && typeof node.value === 'string'
+    ? ctx.src[node.start]
+    : ctx.quote
+  // Containers written on one line stay on one line
+  const inline = node.kind !== 'value' && !ctx.src.slice(node.start, node.end).includes('\n')
+  ctx.edits.push({
+    start: node.start,
+    end: node.end,
+    text: inline
+      ? stringifyInline(ctx, next, quote)
+      : stringifyValue(ctx, next, lineIndent(ctx.src, node.start), quote),
+  })
+}
+
+function updateObject(ctx: EditContext, node: ObjectNode, next: Record<string, unknown>): void {
+  const nextKeys = new Map(Object.keys(next).map(k => [k.toLowerCase(), k]))
+  // With duplicate keys the last one is effective; earlier ones are dropped
+  const effective = new Map<string, Member>()
+  for (const m of node.members) effective.set(m.key.toLowerCase(), m)
+
+  const kept = node.members.filter(m => effective.get(m.key.toLowerCase()) === m && nextKeys.has(m.key.toLowerCase()))
+  const removed = node.members.filter(m => !kept.includes(m))
+  const added = [...nextKeys].filter(([lk]) => !effective.has(lk)).map(([, k]) => k)
+
+  if (kept.length === 0) {
+    replaceNode(ctx, node, next)
+    return
+  }
+
+  for (const m of kept) {
+    updateNode(ctx, m.node, next[nextKeys.get(m.key.toLowerCase())!])
+  }
+  for (const m of removed) {
+    removeMember(ctx, m)
+  }
+
+  const last = kept[kept.length - 1]
+  const trailing = !ctx.json && node.members[node.members.length - 1].comma !== undefined
+  if (added.length > 0) {
+    insertMembers(ctx, node, last, added.map(k => [k, next[k]]), trailing)
+  }
+  else if (last !== node.members[node.members.length - 1] && last.comma !== undefined && !trailing) {
+    // The last kept member used to be followed by a removed one
+    ctx.edits.push({ start: last.comma, end: last.comma + 1, text: '' })
+  }
+}
+
+function removeMember(ctx: EditContext, m: Member): void {
+  const src = ctx.src
+  const after = m.comma !== undefined ? m.comma + 1 : m.node.end
+  const eol = lineEnd(src, after)
+  const lineStart = src.lastIndexOf('\n', m.start - 1) + 1
+  if (eol !== -1 && src.slice(lineStart, m.start).trim() === '') {
+    // The member owns its line(s): drop them along with any trailing comment
+    const nextLine = src.indexOf('\n', eol)
+    ctx.edits.push({ start: lineStart, end: nextLine === -1 ? src.length : nextLine + 1, text: '' })
+    return
+  }
+  let end = after
+  while (src[end] === ' ' || src[end] === '\t') end++
+  ctx.edits.push({ start: m.start, end, text: '' })
+}
+
+function insertMembers(
+  ctx: EditContext,
+  node: ObjectNode,
+  last: Member,
+  entries: [string, unknown][],
+  trailing: boolean,
+): void {
+  const src = ctx.src
+  const after = last.comma !== undefined ? last.comma + 1 : last.node.end
+  const eol = lineEnd(src, after)
+  const lineStart = src.lastIndexOf('\n', last.start - 1) + 1
+  const indent = lineIndent(src, last.start)
+
+  if (eol !== -1 && src.slice(lineStart, last.start).trim() === '') {
+    const block = entries.map(([k, v], i) => {
+      const sep = i < entries.length - 1 || trailing ? ',' : ''
+      return `${ctx.eol}${indent}${formatKey(ctx, k, node)}: ${stringifyValue(ctx, v, indent)}${sep}`
+    }).join('')
+    if (last.comma === undefined && eol === last.node.end) {
+      ctx.edits.push({ start: eol, end: eol, text: `,${block}` })
+      return
+    }
+    if (last.comma === undefined) {
+      ctx.edits.push({ start: last.node.end, end: last.node.end, text: ',' })
+    }
+    ctx.edits.push({ start: eol, end: eol, text: block })
+    return
+  }
+
+  // Single-line object: append inline after the last kept value
+  const text = entries
+    .map(([k, v]) => `, ${formatKey(ctx, k, node)}: ${stringifyInline(ctx, v, ctx.quote)}`)
+    .join('')
+  if (last.comma !== undefined && !trailing) {
+    // The old separator now trails the inserted members; drop it
+    if (last.comma === last.node.end) {
+      ctx.edits.push({ start: last.node.end, end: last.comma + 1, text })
+      return
+    }
+    ctx.edits.push({ start: last.comma, end: last.comma + 1, text: '' })
+  }
+  ctx.edits.push({ start: last.node.end, end: last.node.end, text })
+}
+
+// --- Formatting helpers ---
+
+function stringifyValue(ctx: EditContext, value: unknown, indent: string, quote: string = ctx.quote): string {
+  const text = ctx.json
+    ? JSON.stringify(value, null, ctx.unit)
+    : json5.stringify(value, { space: ctx.unit, quote })
+  return text.replace(/\n/g, `${ctx.eol}${indent}`)
+}
+
+function stringifyInline(ctx: EditContext, value: unknown, quote: string): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stringifyInline(ctx, item, quote)).join(', ')}]`
+  }
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value)
+    if (keys.length === 0)
+      return '{}'
+    const members = keys.map(k => `${formatKey(ctx, k)}: ${stringifyInline(ctx, value[k], quote)}`)
+    return `{ ${members.join(', ')} }`
+  }
+  return ctx.json ? JSON.stringify(value) : json5.stringify(value, { quote })
+}
+
+function formatKey(ctx: EditContext, key: string, node?: ObjectNode): string {
+  if (ctx.json)
+    return JSON.stringify(key)
+  // Follow the quoting of the first sibling key
+  const first = node ? ctx.src[node.members[0].start] : ''
+  const quoted = first === '"' || first === '\''
+  if (!quoted && IDENT_NAME.test(key))
+    return key
+  return json5.stringify(key, { quote: quoted ? first : ctx.quote })
+}
+
+function detectIndent(src: string, root: ObjectNode): string {
+  const first = root.members[0]
+  if (first) {
+    const lineStart = src.lastIndexOf('\n', first.start - 1) + 1
+    const indent = src.slice(lineStart, first.start)
+    if (lineStart > 0 && indent.length > 0 && indent.trim() === '')
+      return indent
+  }
+  return '  '
+}
+
+function lineIndent(src: string, pos: number): string {
+  const lineStart = src.lastIndexOf('\n', pos - 1) + 1
+  return /^[ \t]*/.exec(src.slice(lineStart, pos))![0]
+}
+
+/**
+ * Offset of the line break ending the line at `pos`, skipping whitespace and
+ * comments, or -1 if another token follows on the same line.
+ */
+function lineEnd(src: string, pos: number): number {
+  let i = pos
+  while (i < src.length) {
+    if (src[i] === '\n' || src.startsWith('\r\n', i))
+      return i
+    if (src[i] === ' ' || src[i] === '\t') {
+      i++
+    }
+    else if (src.startsWith('//', i)) {
+      const nl = src.indexOf('\n', i)
+      if (nl === -1)
+        return src.length
+      return src[nl - 1] === '\r' ? nl - 1 : nl
+    }
+    else if (src.startsWith('/*', i)) {
+      const close = src.indexOf('*/', i + 2)
+      if (close === -1 || src.slice(i, close).includes('\n'))
+        return -1
+      i = close + 2
+    }
+    else {
+      return -1
+    }
+  }
+  return src.length
+}
+
+/** Deep equality that ignores key case, mirroring how config files are read. */
+function sameConfig(a: unknown, b: unknown): boolean {
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const lower = (obj: Record<string, unknown>) =>
+      new Map(Object.keys(obj).map(k => [k.toLowerCase(), obj[k]]))
+    const la = lower(a)
+    const lb = lower(b)
+    return la.size === lb.size && [...la].every(([k, v]) => lb.has(k) && sameConfig(v, lb.get(k)))
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => sameConfig(item, b[i]))
+  }
+  return isDeepEqual(a, b)
+}
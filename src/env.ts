@@ -1,16 +1,55 @@
 import process from 'node:process'
 
+// KEY=value with an optional `export` prefix; quoted values may span lines.
+// A value with an unterminated quote is matched as a bare value.
+const DOTENV_LINE = /^[ \t]*(?:export[ \t]+)?([\w.-]+)[ \t]*=[ \t]*(?:('[^']*'|"(?:\\.|[^"\\])*"|`[^`]*`)|([^\n]*))/gm
+
+export function parseDotenv(raw: string): Record<string, string> {
+  const result: Record<string, string> = {}
+  const src = raw.replace(/\r\n?/g, '\n')
+  for (const match of src.matchAll(DOTENV_LINE)) {
+    const [, name, quoted, bare] = match
+    let value: string
+    if (quoted?.startsWith('"')) {
+      value = quoted.slice(1, -1).replace(/\\(.)/g, (_, ch: string) => {
+        switch (ch) {
+          case 'n': return '\n'
+          case 'r': return '\r'
+          case 't': return '\t'
+          default: return ch
+        }
+      })
+    }
+    else if (quoted !== undefined) {
+      value = quoted.slice(1, -1)
+    }
+    else {
+      // Unquoted: an inline comment needs whitespace before the `#`
+      value = bare.replace(/(?:^|\s+)#.*$/, '').trim()
+    }
+    result[name] = value
+  }
+  return result
+}
+
+function lookupEnv(name: string, fileEnv: Record<string, string>, env: NodeJS.ProcessEnv): string | undefined {
+  // Real env vars always win over values loaded from env files
+  return env[name] ?? (Object.hasOwn(fileEnv, name) ? fileEnv[name] : undefined)
+}
+
 export function resolveEnvKey(
   key: string,
   prefix: string,
   envBindings: Map<string, string[]>,
   autoEnv: boolean,
+  fileEnv: Record<string, string> = {},
+  env: NodeJS.ProcessEnv = process.env,
 ): string | undefined {
   // Check explicit bindings first
   const bindings = envBindings.get(key)
   if (bindings) {
     for (const envVar of bindings) {
-      const val = process.env[envVar]
+      const val = lookupEnv(envVar, fileEnv, env)
       if (val !== undefined) {
         return val
       }
@@ -22,7 +61,7 @@ export function resolveEnvKey(
     const envName = prefix
       ? `${prefix}_${key.replace(/\./g, '_')}`.toUpperCase()
       : key.replace(/\./g, '_').toUpperCase()
-    const val = process.env[envName]
+    const val = lookupEnv(envName, fileEnv, env)
     if (val !== undefined) {
       return val
     }
@@ -2,7 +2,33 @@ import type { ZodType } from 'zod'
 import type { ViperOptions } from './types'
 import { Viper } from './viper'
 
-export type { ViperOptions } from './types'
+export type { Codec } from './codec'
+export { registerCodec } from './codec'
+export type { ArrayMergeStrategy } from './merge'
+export type { JsonPatchOperation } from './patch'
+export type { RemoteFetchOptions, RemoteProvider } from './remote'
+export { FileProvider, MemoryProvider } from './remote'
+export type {
+  BuiltinLayer,
+  ConfigChange,
+  ConfigDiff,
+  ConfigFileSpec,
+  ConfigLayer,
+  ConfigSource,
+  FlagDefinitions,
+  LayerOptions,
+  ParsedFlags,
+  PatchOptions,
+  ReadConfigOptions,
+  ReloadErrorEvent,
+  ReloadStatus,
+  RemoteProviderOptions,
+  UpwardSearchOptions,
+  ViperOptions,
+  WatchConfigOptions,
+  WatchRemoteOptions,
+  WriteOptions,
+} from './types'
 export { Viper } from './viper'
 
 export function createViper<T extends ZodType>(options?: ViperOptions<T>): Viper<T> {
@@ -1,33 +1,307 @@
-import { existsSync, readFileSync } from 'node:fs'
-import { chmod, copyFile, rename, unlink, writeFile } from 'node:fs/promises'
-import { basename, dirname, join } from 'node:path'
+import type { CodecRegistry } from './codec'
+import type { ConfigSource } from './types'
+import { Buffer } from 'node:buffer'
+import { existsSync, readdirSync, readFileSync } from 'node:fs'
+import { access, chmod, copyFile, readdir, readFile, rename, unlink, writeFile } from 'node:fs/promises'
+import { basename, dirname, extname, join, resolve } from 'node:path'
 import process from 'node:process'
-import json5 from 'json5'
+import { globalCodecs } from './codec'
+import { parseDotenv } from './env'
 
+export function parseConfig(raw: string, type: string, codecs: CodecRegistry = globalCodecs): unknown {
+  return codecs.resolve(type).parse(raw)
+}
+
+export function stringifyConfig(
+  settings: Record<string, unknown>,
+  type: string,
+  codecs: CodecRegistry = globalCodecs,
+): string {
+  return codecs.resolve(type).stringify(settings)
+}
+
+/**
+ * Render `settings` for the file at `path`. When the file exists and its
+ * codec can update source text in place, only changed values are rewritten;
+ * if that fails the settings are serialized from scratch.
+ */
+export function renderConfigFile(
+  path: string,
+  settings: Record<string, unknown>,
+  type: string,
+  codecs: CodecRegistry = globalCodecs,
+): string {
+  const codec = codecs.resolve(type)
+  if (codec.update && existsSync(path)) {
+    try {
+      return codec.update(readFileSync(path, 'utf-8'), settings)
+    }
+    catch {
+      // unreadable or unparseable source: fall back to a full rewrite
+    }
+  }
+  return stringifyConfig(settings, type, codecs)
+}
+
+/**
+ * Search `paths` in order for `{name}.{type}`. When `type` is a list of
+ * extensions, they are tried in priority order; extensions sharing a codec
+ * (`yaml`/`yml`) resolve to the first match, while files for different
+ * codecs in the same directory are ambiguous and throw.
+ */
 export function findConfigFile(
   name: string,
-  type: string,
+  type: string | string[],
   paths: string[],
+  codecs: CodecRegistry = globalCodecs,
 ): string | undefined {
-  const filename = `${name}.${type}`
+  const types = Array.isArray(type) ? type : [type]
   for (const dir of paths) {
-    const fullPath = join(dir, filename)
-    if (existsSync(fullPath)) {
-      return fullPath
-    }
+    const found = types
+      .map(ext => join(dir, `${name}.${ext}`))
+      .filter(fullPath => existsSync(fullPath))
+    if (found.length > 0)
+      return pickCandidate(found, codecs)
   }
   return undefined
 }
 
-export function readConfigFile(path: string): Record<string, unknown> {
+export async function findConfigFileAsync(
+  name: string,
+  type: string | string[],
+  paths: string[],
+  codecs: CodecRegistry = globalCodecs,
+): Promise<string | undefined> {
+  const types = Array.isArray(type) ? type : [type]
+  for (const dir of paths) {
+    const candidates = types.map(ext => join(dir, `${name}.${ext}`))
+    const exists = await Promise.all(candidates.map(fullPath => access(fullPath).then(() => true, () => false)))
+    const found = candidates.filter((_, i) => exists[i])
+    if (found.length > 0)
+      return pickCandidate(found, codecs)
+  }
+  return undefined
+}
+
+/**
+ * Directories from `from` up to the filesystem root, nearest first. The walk
+ * ends early at the first directory containing one of the `stopAt` entries.
+ */
+export function ancestorDirs(from: string, stopAt: string[] = []): string[] {
+  const dirs: string[] = []
+  let dir = resolve(from)
+  for (;;) {
+    dirs.push(dir)
+    if (stopAt.some(marker => existsSync(join(dir, marker))))
+      break
+    const parent = dirname(dir)
+    if (parent === dir)
+      break
+    dir = parent
+  }
+  return dirs
+}
+
+export async function ancestorDirsAsync(from: string, stopAt: string[] = []): Promise<string[]> {
+  const dirs: string[] = []
+  let dir = resolve(from)
+  for (;;) {
+    dirs.push(dir)
+    const markers = await Promise.all(stopAt.map(marker => access(join(dir, marker)).then(() => true, () => false)))
+    if (markers.includes(true))
+      break
+    const parent = dirname(dir)
+    if (parent === dir)
+      break
+    dir = parent
+  }
+  return dirs
+}
+
+/**
+ * List drop-in fragments in `dir` whose extension is one of `types`, in
+ * lexical order. Hidden files are skipped and a missing directory is empty.
+ */
+export function findConfigFragments(dir: string, types: string[]): string[] {
+  if (!existsSync(dir))
+    return []
+  return selectFragments(dir, readdirSync(dir, { withFileTypes: true }), types)
+}
+
+export async function findConfigFragmentsAsync(dir: string, types: string[]): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true }).catch((err: { code?: string }) => {
+    if (err.code === 'ENOENT')
+      return []
+    throw err
+  })
+  return selectFragments(dir, entries, types)
+}
+
+function selectFragments(
+  dir: string,
+  entries: { name: string, isFile: () => boolean, isSymbolicLink: () => boolean }[],
+  types: string[],
+): string[] {
+  const exts = new Set(types.map(t => t.toLowerCase()))
+  return entries
+    .filter(entry => entry.isFile() || entry.isSymbolicLink())
+    .map(entry => entry.name)
+    .filter(name => !name.startsWith('.') && exts.has(extname(name).slice(1).toLowerCase()))
+    .sort()
+    .map(name => join(dir, name))
+}
+
+function pickCandidate(found: string[], codecs: CodecRegistry): string {
+  const formats = new Set(found.map(fullPath => codecs.get(codecs.typeFor(fullPath, ''))))
+  if (formats.size > 1) {
+    throw new Error(
+      `ambiguous config file: found ${found.join(', ')}; call setConfigType() to choose one`,
+    )
+  }
+  return found[0]
+}
+
+export function readConfigFile(
+  path: string,
+  type: string = 'json5',
+  codecs: CodecRegistry = globalCodecs,
+): Record<string, unknown> {
   const raw = readFileSync(path, 'utf-8')
-  const parsed = json5.parse(raw)
+  const parsed = parseConfig(raw, codecs.typeFor(path, type), codecs)
   if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
     throw new Error(`Config file must contain a JSON object: ${path}`)
   }
   return parsed as Record<string, unknown>
 }
 
+export async function readConfigFileAsync(
+  path: string,
+  type: string = 'json5',
+  codecs: CodecRegistry = globalCodecs,
+): Promise<Record<string, unknown>> {
+  const raw = await readFile(path, 'utf-8')
+  const parsed = parseConfig(raw, codecs.typeFor(path, type), codecs)
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Config file must contain a JSON object: ${path}`)
+  }
+  return parsed as Record<string, unknown>
+}
+
+export interface ConfigPart {
+  data: Record<string, unknown>
+  /** File the data was read from, if any. */
+  origin?: string
+  /** The file has `$extends` or `$include` directives, which `data` leaves out. */
+  directives?: boolean
+}
+
+const DIRECTIVES = ['$extends', '$include']
+
+/**
+ * Read a config file together with the files its `$extends` and `$include`
+ * directives pull in, as parts to merge in order: extended files first, then
+ * the file itself, then included files. Paths are relative to the file.
+ */
+export function readConfigTree(
+  path: string,
+  type: string = 'json5',
+  codecs: CodecRegistry = globalCodecs,
+  chain: string[] = [],
+): ConfigPart[] {
+  const nextChain = enterConfigFile(path, chain)
+  const { data, directives, extendsPaths, includePaths } = splitDirectives(readConfigFile(path, type, codecs), path)
+  return [
+    ...extendsPaths.flatMap(file => readConfigTree(file, type, codecs, nextChain)),
+    { data, origin: path, directives },
+    ...includePaths.flatMap(file => readConfigTree(file, type, codecs, nextChain)),
+  ]
+}
+
+export async function readConfigTreeAsync(
+  path: string,
+  type: string = 'json5',
+  codecs: CodecRegistry = globalCodecs,
+  chain: string[] = [],
+): Promise<ConfigPart[]> {
+  const nextChain = enterConfigFile(path, chain)
+  const { data, directives, extendsPaths, includePaths } = splitDirectives(await readConfigFileAsync(path, type, codecs), path)
+  const parts: ConfigPart[] = []
+  for (const file of extendsPaths) {
+    parts.push(...await readConfigTreeAsync(file, type, codecs, nextChain))
+  }
+  parts.push({ data, origin: path, directives })
+  for (const file of includePaths) {
+    parts.push(...await readConfigTreeAsync(file, type, codecs, nextChain))
+  }
+  return parts
+}
+
+function enterConfigFile(path: string, chain: string[]): string[] {
+  const file = resolve(path)
+  if (chain.includes(file)) {
+    throw new Error(`config include cycle: ${[...chain.slice(chain.indexOf(file)), file].join(' -> ')}`)
+  }
+  return [...chain, file]
+}
+
+function splitDirectives(
+  raw: Record<string, unknown>,
+  path: string,
+): { data: Record<string, unknown>, directives: boolean, extendsPaths: string[], includePaths: string[] } {
+  const data: Record<string, unknown> = {}
+  const directives: Record<string, string[]> = {}
+  for (const [key, value] of Object.entries(raw)) {
+    const directive = key.toLowerCase()
+    if (!DIRECTIVES.includes(directive)) {
+      data[key] = value
+      continue
+    }
+    const paths = typeof value === 'string' ? [value] : value
+    if (!Array.isArray(paths) || !paths.every(p => typeof p === 'string')) {
+      throw new Error(`${directive} must be a path or a list of paths: ${path}`)
+    }
+    directives[directive] = paths.map(p => resolve(dirname(path), p))
+  }
+  return {
+    data,
+    directives: Object.keys(directives).length > 0,
+    extendsPaths: directives.$extends ?? [],
+    includePaths: directives.$include ?? [],
+  }
+}
+
+export async function readConfigSource(
+  source: ConfigSource,
+  type: string = 'json5',
+  codecs: CodecRegistry = globalCodecs,
+): Promise<Record<string, unknown>> {
+  const raw = await readSourceText(source)
+  const parsed = parseConfig(raw, type, codecs)
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Config source must contain a JSON object')
+  }
+  return parsed as Record<string, unknown>
+}
+
+async function readSourceText(source: ConfigSource): Promise<string> {
+  if (typeof source === 'string')
+    return source
+  if (source instanceof Uint8Array)
+    return Buffer.from(source).toString('utf-8')
+  const chunks: Buffer[] = []
+  for await (const chunk of source) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk, 'utf-8') : Buffer.from(chunk))
+  }
+  return Buffer.concat(chunks).toString('utf-8')
+}
+
+/** Read a dotenv file; a missing file yields `undefined` rather than an error. */
+export function readEnvFile(path: string): Record<string, string> | undefined {
+  if (!existsSync(path))
+    return undefined
+  return parseDotenv(readFileSync(path, 'utf-8'))
+}
+
 export async function atomicWriteFile(path: string, data: string): Promise<void> {
   const dir = dirname(path)
 
@@ -1,3 +1,43 @@
+/**
+ * True for object literals and null-prototype objects. Values such as `Date`
+ * are leaves, not nested config sections.
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object')
+    return false
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b))
+    return true
+  if (a instanceof Date && b instanceof Date)
+    return a.getTime() === b.getTime()
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]))
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a)
+    return keys.length === Object.keys(b).length
+      && keys.every(k => Object.hasOwn(b, k) && isDeepEqual(a[k], b[k]))
+  }
+  return false
+}
+
+/**
+ * Copy the plain objects and arrays in `value`. Other values, such as
+ * functions and class instances, are kept by reference, so anything a
+ * config layer can hold is accepted.
+ */
+export function copyTree(value: unknown): unknown {
+  if (Array.isArray(value))
+    return value.map(copyTree)
+  if (isPlainObject(value))
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, copyTree(v)]))
+  return value
+}
+
 export function splitKey(key: string, delim: string): string[] {
   return key.toLowerCase().split(delim).filter(Boolean)
 }
@@ -56,8 +96,8 @@ export function flattenKeys(obj: Record<string, unknown>, prefix?: string): stri
   for (const key of Object.keys(obj)) {
     const fullKey = prefix ? `${prefix}.${key}` : key
     const value = obj[key]
-    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
-      keys.push(...flattenKeys(value as Record<string, unknown>, fullKey))
+    if (isPlainObject(value)) {
+      keys.push(...flattenKeys(value, fullKey))
     }
     else {
       keys.push(fullKey)
@@ -1,6 +1,20 @@
+import { isDeepEqual, isPlainObject } from './keys'
+
+/**
+ * How arrays from a higher layer combine with the array beneath them.
+ * `mergeBy` merges object items that share the same value of a field and
+ * appends the rest.
+ */
+export type ArrayMergeStrategy = 'replace' | 'append' | 'prepend' | 'union' | { mergeBy: string }
+
+/** Picks the array strategy for a key path (array indices are not part of the path). */
+export type ArrayStrategyResolver = (path: string[]) => ArrayMergeStrategy
+
 export function deepMerge(
   target: Record<string, unknown>,
   source: Record<string, unknown>,
+  arrayStrategy: ArrayStrategyResolver = () => 'replace',
+  path: string[] = [],
 ): Record<string, unknown> {
   const result = { ...target }
 
@@ -14,18 +28,17 @@ export function deepMerge(
     }
 
     const targetVal = result[key]
+    const keyPath = [...path, key]
 
-    if (
-      typeof sourceVal === 'object'
-      && !Array.isArray(sourceVal)
-      && typeof targetVal === 'object'
-      && targetVal !== null
-      && !Array.isArray(targetVal)
-    ) {
-      result[key] = deepMerge(
-        targetVal as Record<string, unknown>,
-        sourceVal as Record<string, unknown>,
-      )
+    if (isPlainObject(sourceVal) && isPlainObject(targetVal)) {
+      result[key] = deepMerge(targetVal, sourceVal, arrayStrategy, keyPath)
+    }
+    else if (Array.isArray(sourceVal) && Array.isArray(targetVal)) {
+      result[key] = mergeArrays(targetVal, sourceVal, arrayStrategy, keyPath)
+    }
+    else if (isPlainObject(sourceVal)) {
+      // Copy, so later writes to the result never reach the source
+      result[key] = deepMerge({}, sourceVal, arrayStrategy, keyPath)
     }
     else {
       result[key] = sourceVal
@@ -34,3 +47,74 @@ export function deepMerge(
 
   return result
 }
+
+export function mergeArrays(
+  target: unknown[],
+  source: unknown[],
+  arrayStrategy: ArrayStrategyResolver,
+  path: string[],
+): unknown[] {
+  const strategy = arrayStrategy(path)
+  switch (strategy) {
+    case 'replace':
+      return source
+    case 'append':
+      return [...target, ...source]
+    case 'prepend':
+      return [...source, ...target]
+    case 'union': {
+      const result = [...target]
+      for (const item of source) {
+        if (!result.some(existing => isDeepEqual(existing, item)))
+          result.push(item)
+      }
+      return result
+    }
+  }
+
+  const field = strategy.mergeBy
+  const result = [...target]
+  for (const item of source) {
+    const index = isPlainObject(item) && item[field] !== undefined
+      ? result.findIndex(existing => isPlainObject(existing) && isDeepEqual(existing[field], item[field]))
+      : -1
+    const existing = result[index]
+    if (index === -1 || !isPlainObject(existing) || !isPlainObject(item))
+      result.push(item)
+    else
+      result[index] = deepMerge(existing, item, arrayStrategy, path)
+  }
+  return result
+}
+
+/**
+ * Drop every value of `obj` that is deeply equal to the same path in `base`,
+ * pruning objects that end up empty.
+ */
+export function omitEqual(
+  obj: Record<string, unknown>,
+  base: Record<string, unknown>,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+
+  for (const key of Object.keys(obj)) {
+    const val = obj[key]
+    const baseVal = base[key]
+
+    if (isDeepEqual(val, baseVal)) {
+      continue
+    }
+
+    if (isPlainObject(val) && isPlainObject(baseVal)) {
+      const nested = omitEqual(val, baseVal)
+      if (Object.keys(nested).length > 0) {
+        result[key] = nested
+      }
+    }
+    else {
+      result[key] = val
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,177 @@
+import { copyTree, isDeepEqual, isPlainObject } from './keys'
+
+/** An RFC 6902 operation; `copy` is not supported. */
+export type JsonPatchOperation
+  = | { op: 'add', path: string, value: unknown }
+    | { op: 'remove', path: string }
+    | { op: 'replace', path: string, value: unknown }
+    | { op: 'move', from: string, path: string }
+    | { op: 'test', path: string, value: unknown }
+
+export interface JsonPatchOptions {
+  /** Match object keys outside arrays case-insensitively, as lowercased config keys. */
+  ignoreCase?: boolean
+}
+
+type Container = Record<string, unknown> | unknown[]
+
+interface Location {
+  parent: Container
+  key: string
+}
+
+const ARRAY_INDEX = /^(?:0|[1-9]\d*)$/
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === '')
+    return []
+  if (!pointer.startsWith('/')) {
+    throw new Error(`invalid JSON pointer: ${pointer}`)
+  }
+  return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+function toPointer(path: string[]): string {
+  return path.map(token => `/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('')
+}
+
+function isContainer(value: unknown): value is Container {
+  return Array.isArray(value) || isPlainObject(value)
+}
+
+/** The container holding the last token of `pointer`, and the key within it. */
+function locate(root: unknown, pointer: string, options: JsonPatchOptions): Location {
+  const tokens = parsePointer(pointer)
+  let current = root
+  // Keys inside array items keep their case
+  let foldCase = options.ignoreCase ?? false
+  for (const [i, token] of tokens.entries()) {
+    if (!isContainer(current)) {
+      throw new Error(`json patch path not found: ${pointer}`)
+    }
+    const key = !Array.isArray(current) && foldCase ? token.toLowerCase() : token
+    if (i === tokens.length - 1)
+      return { parent: current, key }
+    if (Array.isArray(current))
+      foldCase = false
+    current = valueAt({ parent: current, key }, pointer)
+  }
+  throw new Error(`json patch cannot target the document root: ${pointer}`)
+}
+
+function valueAt({ parent, key }: Location, pointer: string): unknown {
+  if (Array.isArray(parent) ? !ARRAY_INDEX.test(key) || Number(key) >= parent.length : !Object.hasOwn(parent, key)) {
+    throw new Error(`json patch path not found: ${pointer}`)
+  }
+  return Array.isArray(parent) ? parent[Number(key)] : parent[key]
+}
+
+function add({ parent, key }: Location, value: unknown, pointer: string): void {
+  if (!Array.isArray(parent)) {
+    parent[key] = value
+    return
+  }
+  const index = key === '-' ? parent.length : Number(key)
+  if ((key !== '-' && !ARRAY_INDEX.test(key)) || index > parent.length) {
+    throw new Error(`json patch path not found: ${pointer}`)
+  }
+  parent.splice(index, 0, value)
+}
+
+function remove(location: Location, pointer: string): unknown {
+  const value = valueAt(location, pointer)
+  const { parent, key } = location
+  if (Array.isArray(parent))
+    parent.splice(Number(key), 1)
+  else
+    delete parent[key]
+  return value
+}
+
+function applyOperation(root: unknown, op: JsonPatchOperation, options: JsonPatchOptions): unknown {
+  // An empty path addresses the whole document
+  if (op.path === '') {
+    switch (op.op) {
+      case 'add':
+      case 'replace':
+        return copyTree(op.value)
+      case 'test':
+        if (!isDeepEqual(root, op.value))
+          throw new Error(`json patch test failed: ${op.path}`)
+        return root
+      default:
+        throw new Error(`json patch cannot ${op.op} the document root`)
+    }
+  }
+
+  const location = locate(root, op.path, options)
+  switch (op.op) {
+    case 'add':
+      add(location, copyTree(op.value), op.path)
+      break
+    case 'remove':
+      remove(location, op.path)
+      break
+    case 'replace':
+      valueAt(location, op.path)
+      if (Array.isArray(location.parent))
+        location.parent[Number(location.key)] = copyTree(op.value)
+      else
+        location.parent[location.key] = copyTree(op.value)
+      break
+    case 'move': {
+      if (op.path.startsWith(`${op.from}/`)) {
+        throw new Error(`json patch cannot move ${op.from} into itself`)
+      }
+      const value = remove(locate(root, op.from, options), op.from)
+      add(locate(root, op.path, options), value, op.path)
+      break
+    }
+    case 'test':
+      if (!isDeepEqual(valueAt(location, op.path), op.value))
+        throw new Error(`json patch test failed: ${op.path}`)
+      break
+    default:
+      throw new Error(`unsupported json patch operation: ${(op as { op: string }).op}`)
+  }
+  return root
+}
+
+/**
+ * Apply RFC 6902 operations in order to a copy of `doc`. The first failing
+ * operation throws, and `doc` is left untouched.
+ */
+export function applyJsonPatch(doc: unknown, ops: JsonPatchOperation[], options: JsonPatchOptions = {}): unknown {
+  let result = copyTree(doc)
+  for (const op of ops) result = applyOperation(result, op, options)
+  return result
+}
+
+function diffInto(ops: JsonPatchOperation[], from: Record<string, unknown>, to: Record<string, unknown>, path: string[]): void {
+  for (const key of Object.keys(from)) {
+    if (!Object.hasOwn(to, key))
+      ops.push({ op: 'remove', path: toPointer([...path, key]) })
+  }
+  for (const key of Object.keys(to)) {
+    const keyPath = [...path, key]
+    if (!Object.hasOwn(from, key))
+      ops.push({ op: 'add', path: toPointer(keyPath), value: to[key] })
+    else if (isPlainObject(from[key]) && isPlainObject(to[key]))
+      diffInto(ops, from[key], to[key], keyPath)
+    else if (!isDeepEqual(from[key], to[key]))
+      ops.push({ op: 'replace', path: toPointer(keyPath), value: to[key] })
+  }
+}
+
+/**
+ * RFC 6902 operations that turn `from` into `to`. Objects are compared key
+ * by key; arrays and other values that differ are replaced whole.
+ */
+export function createJsonPatch(from: unknown, to: unknown): JsonPatchOperation[] {
+  if (!isPlainObject(from) || !isPlainObject(to)) {
+    return isDeepEqual(from, to) ? [] : [{ op: 'replace', path: '', value: to }]
+  }
+  const ops: JsonPatchOperation[] = []
+  diffInto(ops, from, to, [])
+  return ops
+}
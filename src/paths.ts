@@ -0,0 +1,39 @@
+import { homedir } from 'node:os'
+import { isAbsolute, join } from 'node:path'
+import process from 'node:process'
+
+// $VAR or ${VAR}
+const ENV_REF = /\$(?:\{(\w+)\}|(\w+))/g
+
+/**
+ * Expand a leading `~` to the home directory and `$VAR` / `${VAR}` to
+ * environment values. Unset variables expand to an empty string, as in a shell.
+ */
+export function expandPath(path: string, env: NodeJS.ProcessEnv = process.env): string {
+  const expanded = path.replace(ENV_REF, (_, braced?: string, bare?: string) => env[braced ?? bare!] ?? '')
+  if (expanded === '~' || expanded.startsWith('~/')) {
+    return join(homedir(), expanded.slice(1))
+  }
+  return expanded
+}
+
+/**
+ * Config directories for `app` per the XDG Base Directory spec, most
+ * specific first: the user config home, `~/.<app>`, each `XDG_CONFIG_DIRS`
+ * entry, then `/etc/<app>`. Relative XDG values are ignored, as the spec asks.
+ */
+export function standardConfigPaths(app: string, env: NodeJS.ProcessEnv = process.env): string[] {
+  const configHome = env.XDG_CONFIG_HOME && isAbsolute(env.XDG_CONFIG_HOME)
+    ? env.XDG_CONFIG_HOME
+    : join(homedir(), '.config')
+  const configDirs = (env.XDG_CONFIG_DIRS || '/etc/xdg')
+    .split(':')
+    .filter(dir => isAbsolute(dir))
+  const paths = [
+    join(configHome, app),
+    join(homedir(), `.${app}`),
+    ...configDirs.map(dir => join(dir, app)),
+    join('/etc', app),
+  ]
+  return [...new Set(paths)]
+}
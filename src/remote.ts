@@ -0,0 +1,73 @@
+import type { ConfigSource } from './types'
+import { readFile } from 'node:fs/promises'
+import { resolve } from 'node:path'
+
+export interface RemoteFetchOptions {
+  /** Aborted when the fetch times out; pass it on to `fetch` or similar. */
+  signal?: AbortSignal
+}
+
+export interface RemoteProvider {
+  /** Fetch the config document stored at `path`, e.g. a Consul or etcd key. */
+  get: (path: string, options?: RemoteFetchOptions) => Promise<ConfigSource>
+}
+
+/** Serves config documents from memory; handy for tests and fixtures. */
+export class MemoryProvider implements RemoteProvider {
+  private entries: Map<string, ConfigSource>
+
+  constructor(entries: Record<string, ConfigSource> = {}) {
+    this.entries = new Map(Object.entries(entries))
+  }
+
+  set(path: string, value: ConfigSource): void {
+    this.entries.set(path, value)
+  }
+
+  delete(path: string): void {
+    this.entries.delete(path)
+  }
+
+  async get(path: string): Promise<ConfigSource> {
+    const value = this.entries.get(path)
+    if (value === undefined) {
+      throw new Error(`remote config not found: ${path}`)
+    }
+    return value
+  }
+}
+
+/** Serves config documents from files below `root`. */
+export class FileProvider implements RemoteProvider {
+  private root: string
+
+  constructor(root: string) {
+    this.root = root
+  }
+
+  async get(path: string, options?: RemoteFetchOptions): Promise<ConfigSource> {
+    return readFile(resolve(this.root, path), { signal: options?.signal })
+  }
+}
+
+/**
+ * Fetch `path` from `provider`, giving up after `timeout` ms. The provider's
+ * signal is aborted then, so it can stop its own work.
+ */
+export async function fetchWithTimeout(provider: RemoteProvider, path: string, timeout: number): Promise<ConfigSource> {
+  const controller = new AbortController()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`remote config timed out after ${timeout}ms: ${path}`)
+      controller.abort(error)
+      reject(error)
+    }, timeout)
+  })
+  try {
+    return await Promise.race([provider.get(path, { signal: controller.signal }), timedOut])
+  }
+  finally {
+    clearTimeout(timer)
+  }
+}
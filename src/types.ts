@@ -1,6 +1,125 @@
-import type { ZodType } from 'zod'
+import type { ZodError, ZodType } from 'zod'
 
 export interface ViperOptions<TSchema extends ZodType = ZodType> {
   schema?: TSchema
   keyDelimiter?: string
+  /**
+   * Read env vars from a copy of `process.env` taken when env binding is
+   * configured, instead of live on every `get`. Call `refreshEnv()` to re-read.
+   */
+  snapshotEnv?: boolean
+}
+
+export type BuiltinLayer = 'defaults' | 'remote' | 'config' | 'env' | 'flags' | 'overrides'
+
+/** The result of `parseArgs` from `node:util`; pass `tokens: true` for exact detection of passed flags. */
+export interface ParsedFlags {
+  values: Record<string, unknown>
+  tokens?: Array<{ kind: string, name?: string }>
+}
+
+/** Flag definitions as given to `parseArgs` in `options`. */
+export type FlagDefinitions = Record<string, { type: string, default?: unknown }>
+
+/** A built-in layer or the name of one added with `addLayer`. */
+export type ConfigLayer = BuiltinLayer | (string & {})
+
+/** Where to place a new layer; give at most one. Default: below `overrides`. */
+export interface LayerOptions {
+  above?: ConfigLayer
+  below?: ConfigLayer
+}
+
+export interface PatchOptions {
+  /** Layer to edit; any but `env` and `flags`. Default: `overrides`, the layer `set` writes to. */
+  layer?: ConfigLayer
+}
+
+export interface WriteOptions {
+  /** Layers to persist, merged by normal precedence. Default: all layers. */
+  layers?: ConfigLayer[]
+  /** Skip values that equal the defaults layer. */
+  omitDefaults?: boolean
+}
+
+/** Config text, raw bytes, or a readable stream such as `process.stdin`. */
+export type ConfigSource = string | Uint8Array | AsyncIterable<string | Uint8Array>
+
+export interface ReadConfigOptions {
+  /** Format of the source. Default: the configured config type, else `json5`. */
+  type?: string
+}
+
+export interface UpwardSearchOptions {
+  /** Directory to start from. Default: `process.cwd()` at read time. */
+  from?: string
+  /** Stop at the first directory containing one of these entries, e.g. `.git`. */
+  stopAt?: string | string[]
+  /**
+   * `nearest` reads the closest match; `cascade` merges every match from the
+   * root down, so the closest file wins. Default: `nearest`.
+   */
+  mode?: 'nearest' | 'cascade'
+}
+
+export interface RemoteProviderOptions {
+  /** Format of the remote document. Default: from the path's extension, else the config type. */
+  type?: string
+  /** Give up on a fetch after this many milliseconds. Default: 10000. */
+  timeout?: number
+}
+
+export interface WatchRemoteOptions {
+  /** Polling interval in milliseconds. Default: 30000. */
+  interval?: number
+  /** Called when a poll fails; the last good remote values stay in place. */
+  onError?: (error: unknown) => void
+}
+
+/** A config file path, or a path with flags. Files are required unless `optional`. */
+export type ConfigFileSpec = string | { path: string, optional?: boolean }
+
+export interface WatchConfigOptions {
+  /** Wait this long (ms) after the last file event before reloading. Default: 100. */
+  debounce?: number
+  /** Called when a reload fails; the previous config stays in place. */
+  onError?: (error: unknown) => void
+}
+
+export interface ReloadErrorEvent {
+  /**
+   * `load`: reading or parsing a source failed; `validate`: the schema
+   * rejected the result. `notify`: the reload was applied, but an `onChange`
+   * listener threw.
+   */
+  phase: 'load' | 'validate' | 'notify'
+  error: unknown
+  /** Schema issues when `phase` is `validate`. */
+  issues?: ZodError['issues']
+  at: Date
+}
+
+export interface ReloadStatus {
+  /** False while the most recent `reload()` failed; `notify` errors don't count. */
+  ok: boolean
+  lastError?: ReloadErrorEvent
+  /** When config was last loaded successfully. */
+  lastGoodAt?: Date
+}
+
+/** One key in a `diff()`; the `old` fields are absent for added keys, the `new` ones for removed keys. */
+export interface ConfigChange {
+  /** Flattened key, e.g. `database.host`. */
+  key: string
+  oldValue?: unknown
+  newValue?: unknown
+  /** The layer that supplied the value; only reported for `Viper` sides. */
+  oldLayer?: ConfigLayer
+  newLayer?: ConfigLayer
+}
+
+export interface ConfigDiff {
+  added: ConfigChange[]
+  removed: ConfigChange[]
+  changed: ConfigChange[]
 }
@@ -1,18 +1,66 @@
 import type { ZodType } from 'zod'
-import type { ViperOptions } from './types'
-import json5 from 'json5'
+import type { Codec } from './codec'
+import type { ConfigPart } from './io'
+import type { ArrayMergeStrategy } from './merge'
+import type { JsonPatchOperation } from './patch'
+import type { RemoteProvider } from './remote'
+import type {
+  BuiltinLayer,
+  ConfigChange,
+  ConfigDiff,
+  ConfigFileSpec,
+  ConfigLayer,
+  ConfigSource,
+  FlagDefinitions,
+  LayerOptions,
+  ParsedFlags,
+  PatchOptions,
+  ReadConfigOptions,
+  ReloadErrorEvent,
+  ReloadStatus,
+  RemoteProviderOptions,
+  UpwardSearchOptions,
+  ViperOptions,
+  WatchConfigOptions,
+  WatchRemoteOptions,
+  WriteOptions,
+} from './types'
+import type { WatchFilters } from './watch'
+import { existsSync } from 'node:fs'
+import { access } from 'node:fs/promises'
+import { basename, dirname, extname, resolve } from 'node:path'
+import process from 'node:process'
+import { ZodError } from 'zod'
+import { CodecRegistry, globalCodecs } from './codec'
 import { resolveEnvKey } from './env'
-import { atomicWriteFile, findConfigFile, readConfigFile } from './io'
-import { deepGet, deepSet, flattenKeys, splitKey } from './keys'
-import { deepMerge } from './merge'
+import {
+  ancestorDirs,
+  ancestorDirsAsync,
+  atomicWriteFile,
+  findConfigFile,
+  findConfigFileAsync,
+  findConfigFragments,
+  findConfigFragmentsAsync,
+  readConfigSource,
+  readConfigTree,
+  readConfigTreeAsync,
+  readEnvFile,
+  renderConfigFile,
+} from './io'
+import { copyTree, deepGet, deepSet, flattenKeys, isDeepEqual, isPlainObject, splitKey } from './keys'
+import { deepMerge, mergeArrays, omitEqual } from './merge'
+import { applyJsonPatch, createJsonPatch } from './patch'
+import { expandPath, standardConfigPaths } from './paths'
+import { fetchWithTimeout } from './remote'
+import { DirectoryWatcher } from './watch'
 
 function lowercaseKeys(obj: Record<string, unknown>): Record<string, unknown> {
   const result: Record<string, unknown> = {}
   for (const key of Object.keys(obj)) {
     const lk = key.toLowerCase()
     const val = obj[key]
-    if (val !== null && typeof val === 'object' && !Array.isArray(val)) {
-      result[lk] = lowercaseKeys(val as Record<string, unknown>)
+    if (isPlainObject(val)) {
+      result[lk] = lowercaseKeys(val)
     }
     else {
       result[lk] = val
@@ -21,11 +69,41 @@ function lowercaseKeys(obj: Record<string, unknown>): Record<string, unknown> {
   return result
 }
 
+interface PreparedConfig {
+  data: Record<string, unknown>
+  origins: Map<string, string>
+  files: string[]
+  directiveFiles: string[]
+}
+
+interface KeySubscription {
+  key: string
+  listener: (next: unknown, prev: unknown) => void
+  /** Last value the listener saw, detached from the layers. */
+  value: unknown
+}
+
 export class Viper<TSchema extends ZodType = ZodType> {
   private defaults: Record<string, unknown> = {}
   private config: Record<string, unknown> = {}
   private overrides: Record<string, unknown> = {}
+  private remote: Record<string, unknown> = {}
+  private remoteProviders: Array<{ provider: RemoteProvider, path: string, type?: string, timeout: number }> = []
+  /** Remote reads started, and the number of the read whose values are in place. */
+  private remoteReads = 0
+  private remoteApplied = 0
+  private arrayStrategy: ArrayMergeStrategy = 'replace'
+  private arrayStrategies: Map<string, ArrayMergeStrategy> = new Map()
+  private customLayers: Map<string, Record<string, unknown>> = new Map()
+  // Lowest precedence first
+  private layerOrder: ConfigLayer[] = ['defaults', 'remote', 'config', 'env', 'flags', 'overrides']
+  private flagValues: Map<string, unknown> = new Map()
+  private flagDefaults: Map<string, unknown> = new Map()
+  private flagBindings: Map<string, string> = new Map()
   private envBindings: Map<string, string[]> = new Map()
+  private envFileValues: Record<string, string> = {}
+  private snapshotEnv: boolean
+  private envSnapshot?: NodeJS.ProcessEnv
   private aliases: Map<string, string> = new Map()
 
   private schema?: TSchema
@@ -33,14 +111,31 @@ export class Viper<TSchema extends ZodType = ZodType> {
   private envPrefix: string = ''
   private autoEnv: boolean = false
 
+  private explicitConfigFiles: Array<{ path: string, optional: boolean }> = []
   private configFilePath?: string
+  private configFilesRead: string[] = []
+  /** Files read that use `$extends` or `$include`; rewriting them would drop the directives. */
+  private directiveFiles: string[] = []
+  private upwardSearch?: UpwardSearchOptions
+  private profile?: string
+  private profileEnv?: string
+  private loadQueue: Promise<void> = Promise.resolve()
+  private configListeners: Set<(settings: Record<string, unknown>) => void> = new Set()
+  private subscriptions: Set<KeySubscription> = new Set()
+  private reloadErrorListeners: Set<(event: ReloadErrorEvent) => void> = new Set()
+  private lastReloadError?: ReloadErrorEvent
+  private lastGoodAt?: Date
   private configName: string = 'config'
-  private configType: string = 'json5'
+  private configType?: string
   private configPaths: string[] = []
+  private configDirs: string[] = []
+  private configOrigins: Map<string, string> = new Map()
+  private codecs: CodecRegistry = new CodecRegistry(globalCodecs)
 
   constructor(options?: ViperOptions<TSchema>) {
     this.schema = options?.schema
     this.keyDelim = options?.keyDelimiter ?? '.'
+    this.snapshotEnv = options?.snapshotEnv ?? false
   }
 
   // --- Defaults ---
@@ -48,16 +143,29 @@ export class Viper<TSchema extends ZodType = ZodType> {
   setDefault(key: string, value: unknown): void {
     const path = splitKey(key, this.keyDelim)
     deepSet(this.defaults, path, value)
+    this.notifyChanges()
   }
 
   setDefaults(defaults: Record<string, unknown>): void {
-    this.defaults = deepMerge(this.defaults, lowercaseKeys(defaults))
+    this.defaults = this.merge(this.defaults, lowercaseKeys(defaults))
+    this.notifyChanges()
   }
 
   // --- Config file operations ---
 
   setConfigFile(path: string): void {
-    this.configFilePath = path
+    this.setConfigFiles([path])
+  }
+
+  /**
+   * Read these files in order instead of searching, merging later files over
+   * earlier ones. A missing required file is an error; optional ones are skipped.
+   */
+  setConfigFiles(files: ConfigFileSpec[]): void {
+    this.explicitConfigFiles = files.map(file => typeof file === 'string'
+      ? { path: expandPath(file), optional: false }
+      : { path: expandPath(file.path), optional: file.optional ?? false })
+    this.configFilePath = this.explicitConfigFiles.at(-1)?.path
   }
 
   setConfigName(name: string): void {
@@ -68,84 +176,305 @@ export class Viper<TSchema extends ZodType = ZodType> {
     this.configType = type
   }
 
+  registerCodec(name: string, codec: Codec): void {
+    this.codecs.register(name, codec)
+  }
+
+  /**
+   * Select a profile. Each config file is followed by its overlay,
+   * `<name>.<profile>.<ext>` in the same directory, if one exists.
+   */
+  setProfile(profile: string | undefined): void {
+    this.profile = profile || undefined
+  }
+
+  /** Take the profile from an env var (e.g. `NODE_ENV`) when none is set. */
+  setProfileEnv(envVar: string): void {
+    this.profileEnv = envVar
+  }
+
+  activeProfile(): string | undefined {
+    if (this.profile)
+      return this.profile
+    if (!this.profileEnv)
+      return undefined
+    return this.env()[this.profileEnv] || this.envFileValues[this.profileEnv] || undefined
+  }
+
   addConfigPath(path: string): void {
-    this.configPaths.push(path)
+    this.configPaths.push(expandPath(path))
+  }
+
+  /** Add the XDG and conventional config directories for `app`. */
+  addStandardConfigPaths(app: string): void {
+    for (const path of standardConfigPaths(app)) {
+      if (!this.configPaths.includes(path))
+        this.configPaths.push(path)
+    }
+  }
+
+  searchUpward(options?: UpwardSearchOptions): void {
+    const from = options?.from === undefined ? undefined : expandPath(options.from)
+    this.upwardSearch = { ...options, from }
+  }
+
+  addConfigDir(dir: string): void {
+    this.configDirs.push(expandPath(dir))
+  }
+
+  /** Directories searched for the config file, in the order they are tried. */
+  configSearchPaths(): string[] {
+    const upward = this.upwardSearch
+      ? ancestorDirs(this.upwardSearch.from ?? process.cwd(), this.stopMarkers())
+      : []
+    return [...new Set([...upward, ...this.configPaths])]
   }
 
   configFileUsed(): string | undefined {
     return this.configFilePath
   }
 
-  readInConfig(): void {
-    const file = this.resolveConfigFile()
-    if (!file) {
-      throw new Error(
-        `config file not found: searched for "${this.configName}.${this.configType}" in [${this.configPaths.join(', ')}]`,
-      )
-    }
-    this.configFilePath = file
-    const parsed = readConfigFile(file)
-    const lc = lowercaseKeys(parsed)
+  configFilesUsed(): string[] {
+    return [...this.configFilesRead]
+  }
 
-    if (this.schema) {
-      this.schema.parse(lc)
-    }
+  configOrigin(key: string): string | undefined {
+    const realKey = this.resolveAlias(key.toLowerCase())
+    return this.configOrigins.get(splitKey(realKey, this.keyDelim).join('.'))
+  }
 
-    this.config = lc
+  readInConfig(): void {
+    this.loadConfigFiles(false)
   }
 
   mergeInConfig(): void {
-    const file = this.resolveConfigFile()
-    if (!file) {
-      throw new Error(
-        `config file not found: searched for "${this.configName}.${this.configType}" in [${this.configPaths.join(', ')}]`,
-      )
+    this.loadConfigFiles(true)
+  }
+
+  async readInConfigAsync(): Promise<void> {
+    await this.enqueueLoad(() => this.loadConfigFileAsync(false))
+  }
+
+  async mergeInConfigAsync(): Promise<void> {
+    await this.enqueueLoad(() => this.loadConfigFileAsync(true))
+  }
+
+  /**
+   * Re-read the config files, and remote providers if any, and apply them
+   * together. Never throws: on failure the previous config is kept, the
+   * error goes to `onReloadError` listeners and `reloadStatus()`, and the
+   * promise resolves to `false`. Errors thrown by `onChange` listeners
+   * after a successful reload go to `onReloadError` with phase `notify`.
+   */
+  async reload(): Promise<boolean> {
+    try {
+      // Fetch before queueing so a slow provider doesn't hold up other loads
+      const read = ++this.remoteReads
+      const fetched = this.remoteProviders.length > 0 ? await this.fetchRemote() : undefined
+      await this.enqueueLoad(async () => {
+        const { files, parts } = await this.readConfigFilesAsync()
+        const remote = fetched && read > this.remoteApplied ? fetched : this.remote
+        const prepared = this.prepareConfig(parts, false)
+        if (remote !== this.remote) {
+          this.validateEffective({ config: prepared.data, remote })
+          this.remote = remote
+          this.remoteApplied = read
+        }
+        this.commitConfig(prepared, files.at(-1))
+        this.lastReloadError = undefined
+      })
+    }
+    catch (error) {
+      const invalid = error instanceof ZodError
+      const event: ReloadErrorEvent = {
+        phase: invalid ? 'validate' : 'load',
+        error,
+        issues: invalid ? error.issues : undefined,
+        at: new Date(),
+      }
+      this.lastReloadError = event
+      this.emitReloadError(event)
+      return false
     }
-    this.configFilePath = file
-    const parsed = readConfigFile(file)
-    const lc = lowercaseKeys(parsed)
+    // The new config is in place; a failing listener doesn't undo that
+    this.notifyChanges(error => this.emitReloadError({ phase: 'notify', error, at: new Date() }))
+    return true
+  }
 
-    if (this.schema) {
-      this.schema.parse(deepMerge(this.config, lc))
+  /** Call `listener` for each failed `reload()`. Returns an unsubscribe function. */
+  onReloadError(listener: (event: ReloadErrorEvent) => void): () => void {
+    this.reloadErrorListeners.add(listener)
+    return () => {
+      this.reloadErrorListeners.delete(listener)
     }
+  }
 
-    this.config = deepMerge(this.config, lc)
+  /** Health of config loading, e.g. for a readiness probe. */
+  reloadStatus(): ReloadStatus {
+    return { ok: !this.lastReloadError, lastError: this.lastReloadError, lastGoodAt: this.lastGoodAt }
+  }
+
+  async readConfig(source: ConfigSource, options?: ReadConfigOptions): Promise<void> {
+    const type = options?.type ?? this.configType ?? 'json5'
+    await this.enqueueLoad(async () => {
+      this.loadConfig([{ data: await readConfigSource(source, type, this.codecs) }], false)
+    })
+  }
+
+  async mergeConfig(source: ConfigSource, options?: ReadConfigOptions): Promise<void> {
+    const type = options?.type ?? this.configType ?? 'json5'
+    await this.enqueueLoad(async () => {
+      this.loadConfig([{ data: await readConfigSource(source, type, this.codecs) }], true)
+    })
   }
 
   mergeConfigMap(cfg: Record<string, unknown>): void {
-    this.config = deepMerge(this.config, lowercaseKeys(cfg))
+    const lc = lowercaseKeys(cfg)
+    this.config = this.merge(this.config, lc)
+    this.trackOrigins(this.configOrigins, lc)
+    this.pruneOrigins(this.configOrigins, this.config)
+    this.notifyChanges()
   }
 
-  async writeConfig(): Promise<void> {
-    const file = this.configFilePath
-    if (!file) {
-      throw new Error('no config file set or discovered; call readInConfig() or setConfigFile() first')
-    }
-    await this.writeConfigTo(file)
+  async writeConfig(options?: WriteOptions): Promise<void> {
+    await this.writeConfigTo(this.writeTarget(), options)
   }
 
-  async writeConfigAs(path: string): Promise<void> {
-    await this.writeConfigTo(path)
+  async writeConfigAs(path: string, options?: WriteOptions): Promise<void> {
+    await this.writeConfigTo(path, options)
   }
 
-  async safeWriteConfig(): Promise<void> {
-    const file = this.configFilePath
-    if (!file) {
-      throw new Error('no config file set or discovered; call readInConfig() or setConfigFile() first')
-    }
+  async safeWriteConfig(options?: WriteOptions): Promise<void> {
+    const file = this.writeTarget()
     const { existsSync } = await import('node:fs')
     if (existsSync(file)) {
       throw new Error(`config file already exists: ${file}`)
     }
-    await this.writeConfigTo(file)
+    await this.writeConfigTo(file, options)
   }
 
-  async safeWriteConfigAs(path: string): Promise<void> {
+  async safeWriteConfigAs(path: string, options?: WriteOptions): Promise<void> {
     const { existsSync } = await import('node:fs')
     if (existsSync(path)) {
       throw new Error(`config file already exists: ${path}`)
     }
-    await this.writeConfigTo(path)
+    await this.writeConfigTo(path, options)
+  }
+
+  // --- Change subscriptions ---
+
+  /**
+   * Call `listener` whenever the effective value of `key` changes, from any
+   * layer. For a section key such as `database`, any change below it counts.
+   * Returns an unsubscribe function.
+   */
+  onChange<T = unknown>(key: string, listener: (next: T | undefined, prev: T | undefined) => void): () => void {
+    const subscription: KeySubscription = {
+      key,
+      listener: listener as KeySubscription['listener'],
+      value: this.effectiveValue(key, this.allSettings()),
+    }
+    this.subscriptions.add(subscription)
+    return () => {
+      this.subscriptions.delete(subscription)
+    }
+  }
+
+  // --- Watching ---
+
+  /** Call `listener` with the new settings after each reload by `watchConfig`. Returns an unsubscribe function. */
+  onConfigChange(listener: (settings: Record<string, unknown>) => void): () => void {
+    this.configListeners.add(listener)
+    return () => {
+      this.configListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Reload config when the files read, or files in drop-in directories,
+   * change. Parent directories are watched so rename-style replaces are seen.
+   * Returns a function that stops watching.
+   */
+  watchConfig(options?: WatchConfigOptions): () => void {
+    if (this.configFilesRead.length === 0 && this.configDirs.length === 0) {
+      throw new Error('no config files to watch: call readInConfig() first')
+    }
+    const watcher = new DirectoryWatcher(() => {
+      void this.reload().then((ok) => {
+        if (!ok) {
+          options?.onError?.(this.lastReloadError?.error)
+          return
+        }
+        if (watcher.closed)
+          return
+        // The set of files may have changed, e.g. a new include or fragment
+        watcher.update(this.watchFilters())
+        const settings = this.allSettings()
+        for (const listener of this.configListeners) {
+          // One failing listener shouldn't stop the rest or go unhandled
+          try {
+            listener(settings)
+          }
+          catch (err) {
+            options?.onError?.(err)
+          }
+        }
+      }).catch(err => options?.onError?.(err))
+    }, options?.debounce ?? 100, options?.onError)
+    watcher.update(this.watchFilters())
+    return () => watcher.close()
+  }
+
+  // --- Remote config ---
+
+  /** Add a key-value store to read config from; later providers win. */
+  addRemoteProvider(provider: RemoteProvider, path: string, options?: RemoteProviderOptions): void {
+    this.remoteProviders.push({ provider, path, type: options?.type, timeout: options?.timeout ?? 10_000 })
+  }
+
+  /**
+   * Fetch every remote provider and replace the remote layer. The result is
+   * validated together with the other layers; on failure the previous
+   * remote values are kept. Fetches run outside the load queue, so a slow
+   * provider only delays this call.
+   */
+  async readRemoteConfig(): Promise<void> {
+    if (this.remoteProviders.length === 0) {
+      throw new Error('no remote providers configured')
+    }
+    const read = ++this.remoteReads
+    const next = await this.fetchRemote()
+    await this.enqueueLoad(async () => {
+      // A read started later has already been applied
+      if (read < this.remoteApplied)
+        return
+      this.validateEffective({ remote: next })
+      this.remote = next
+      this.remoteApplied = read
+      this.lastGoodAt = new Date()
+      this.notifyChanges()
+    })
+  }
+
+  /**
+   * Poll the remote providers. A tick is skipped while the previous poll is
+   * still running. Returns a function that stops polling.
+   */
+  watchRemoteConfig(options?: WatchRemoteOptions): () => void {
+    let polling = false
+    const timer = setInterval(() => {
+      if (polling)
+        return
+      polling = true
+      this.readRemoteConfig()
+        .catch(err => options?.onError?.(err))
+        .finally(() => {
+          polling = false
+        })
+    }, options?.interval ?? 30_000)
+    // Polling alone shouldn't keep the process alive
+    timer.unref()
+    return () => clearInterval(timer)
   }
 
   // --- Override ---
@@ -153,35 +482,155 @@ export class Viper<TSchema extends ZodType = ZodType> {
   set(key: string, value: unknown): void {
     const path = splitKey(key, this.keyDelim)
     deepSet(this.overrides, path, value)
+    this.notifyChanges()
   }
 
-  // --- Getters ---
+  // --- Patches ---
 
-  get<T = unknown>(key: string): T | undefined {
-    const realKey = this.resolveAlias(key.toLowerCase())
-    const path = splitKey(realKey, this.keyDelim)
+  /**
+   * Apply an RFC 7386 merge patch to a layer: objects merge, `null` deletes
+   * a key and arrays are replaced. The result must pass the schema first.
+   */
+  applyMergePatch(patch: Record<string, unknown>, options?: PatchOptions): void {
+    if (!isPlainObject(patch)) {
+      throw new Error('merge patch must be an object')
+    }
+    const layer = options?.layer ?? 'overrides'
+    this.commitPatch(layer, deepMerge(this.editableLayer(layer), lowercaseKeys(patch)))
+  }
+
+  /**
+   * Apply RFC 6902 operations to a layer, all or nothing. Object keys in
+   * paths match case-insensitively, like other keys. The result must pass
+   * the schema first.
+   */
+  applyJsonPatch(ops: JsonPatchOperation[], options?: PatchOptions): void {
+    const layer = options?.layer ?? 'overrides'
+    const next = applyJsonPatch(this.editableLayer(layer), ops, { ignoreCase: true })
+    if (!isPlainObject(next)) {
+      throw new Error('json patch must leave the layer an object')
+    }
+    this.commitPatch(layer, lowercaseKeys(next))
+  }
+
+  /** The RFC 6902 operations that turn `from` into `to`, e.g. to send an edit instead of a whole document. */
+  createPatch(from: Record<string, unknown>, to: Record<string, unknown>): JsonPatchOperation[] {
+    return createJsonPatch(from, to)
+  }
+
+  // --- Flags ---
+
+  /**
+   * Bind `parseArgs` results. Flags that were passed form the flags layer;
+   * flag defaults only apply to keys without a default of their own. Each
+   * flag maps to the key of the same name unless remapped with `bindFlag`.
+   */
+  bindFlags(parsed: ParsedFlags, definitions: FlagDefinitions): void {
+    const passed = parsed.tokens
+      ? new Set(parsed.tokens.flatMap(token => token.kind === 'option' && token.name ? [token.name] : []))
+      : undefined
+    for (const [name, definition] of Object.entries(definitions)) {
+      const value = parsed.values[name]
+      const hasDefault = definition.default !== undefined
+      if (hasDefault)
+        this.flagDefaults.set(name, definition.default)
+      // Without tokens, a value equal to the flag default counts as not passed
+      const wasPassed = passed
+        ? passed.has(name)
+        : value !== undefined && !(hasDefault && isDeepEqual(value, definition.default))
+      if (wasPassed && value !== undefined)
+        this.flagValues.set(name, value)
+      else
+        this.flagValues.delete(name)
+      if (![...this.flagBindings.values()].includes(name))
+        this.flagBindings.set(name.toLowerCase(), name)
+    }
+    this.notifyChanges()
+  }
 
-    // 1. Check overrides
-    const fromOverride = deepGet(this.overrides, path)
-    if (fromOverride !== undefined)
-      return fromOverride as T
+  /** Bind `key` to a flag from `bindFlags`, e.g. `bindFlag('db.host', 'db-host')`. */
+  bindFlag(key: string, flagName: string): void {
+    for (const [boundKey, name] of this.flagBindings) {
+      if (name === flagName)
+        this.flagBindings.delete(boundKey)
+    }
+    this.flagBindings.set(key.toLowerCase(), flagName)
+    this.notifyChanges()
+  }
+
+  // --- Layers ---
+
+  /** Add a named layer of settings, placed relative to an existing layer. */
+  addLayer(name: string, data: Record<string, unknown>, options?: LayerOptions): void {
+    if (this.layerOrder.includes(name)) {
+      throw new Error(`config layer already exists: ${name}`)
+    }
+    if (options?.above !== undefined && options.below !== undefined) {
+      throw new Error('addLayer: pass either "above" or "below", not both')
+    }
+    const index = options?.above !== undefined
+      ? this.layerIndex(options.above) + 1
+      : this.layerIndex(options?.below ?? 'overrides')
+    this.customLayers.set(name, lowercaseKeys(data))
+    this.layerOrder.splice(index, 0, name)
+    this.notifyChanges()
+  }
 
-    // 2. Check env
-    const fromEnv = resolveEnvKey(realKey, this.envPrefix, this.envBindings, this.autoEnv)
-    if (fromEnv !== undefined)
-      return fromEnv as T
+  /** Replace the settings of a layer added with `addLayer`. */
+  setLayer(name: string, data: Record<string, unknown>): void {
+    if (!this.customLayers.has(name)) {
+      throw new Error(`unknown config layer: ${name}`)
+    }
+    this.customLayers.set(name, lowercaseKeys(data))
+    this.notifyChanges()
+  }
 
-    // 3. Check config
-    const fromConfig = deepGet(this.config, path)
-    if (fromConfig !== undefined)
-      return fromConfig as T
+  removeLayer(name: string): void {
+    if (!this.customLayers.delete(name)) {
+      throw new Error(`unknown config layer: ${name}`)
+    }
+    this.layerOrder.splice(this.layerIndex(name), 1)
+    this.notifyChanges()
+  }
 
-    // 4. Check defaults
-    const fromDefaults = deepGet(this.defaults, path)
-    if (fromDefaults !== undefined)
-      return fromDefaults as T
+  /**
+   * Choose how arrays combine when layers and files are merged, for every
+   * key or for one key path. Keys inside array items keep their case, so a
+   * `mergeBy` field must match exactly.
+   */
+  setArrayMergeStrategy(strategy: ArrayMergeStrategy, key?: string): void {
+    if (key === undefined)
+      this.arrayStrategy = strategy
+    else
+      this.arrayStrategies.set(this.strategyKey(splitKey(key.toLowerCase(), this.keyDelim)), strategy)
+    this.notifyChanges()
+  }
 
-    return undefined
+  /** Layer names, highest precedence first. */
+  layers(): ConfigLayer[] {
+    return [...this.layerOrder].reverse()
+  }
+
+  // --- Getters ---
+
+  get<T = unknown>(key: string): T | undefined {
+    const realKey = this.resolveAlias(key.toLowerCase())
+    const path = splitKey(realKey, this.keyDelim)
+
+    // Walk the layers from highest precedence down
+    const hits: unknown[] = []
+    for (const layer of this.layers()) {
+      const value = layer === 'env'
+        ? resolveEnvKey(realKey, this.envPrefix, this.envBindings, this.autoEnv, this.envFileValues, this.env())
+        : deepGet(this.layerData(layer), path)
+      if (value === undefined)
+        continue
+      // Arrays with a combining strategy fold in the arrays beneath them
+      if (!Array.isArray(value) || this.arrayStrategyFor(path) === 'replace')
+        return (hits.length > 0 ? this.foldArrays(hits, path) : value) as T
+      hits.push(value)
+    }
+    return (hits.length > 0 ? this.foldArrays(hits, path) : undefined) as T | undefined
   }
 
   getString(key: string): string {
@@ -243,10 +692,36 @@ export class Viper<TSchema extends ZodType = ZodType> {
       existing.push(...envVars)
     }
     this.envBindings.set(lk, existing)
+    this.env()
+    this.notifyChanges()
   }
 
   automaticEnv(): void {
     this.autoEnv = true
+    this.env()
+    this.notifyChanges()
+  }
+
+  /**
+   * Re-read the environment and notify subscribers of keys whose env values
+   * changed. With `snapshotEnv` this takes a new snapshot; otherwise env is
+   * read live and this only reports changes.
+   */
+  refreshEnv(): void {
+    if (this.snapshotEnv)
+      this.envSnapshot = { ...process.env }
+    this.notifyChanges()
+  }
+
+  addEnvFile(...paths: string[]): void {
+    // Later files override earlier ones; missing files are skipped
+    for (const path of paths) {
+      const values = readEnvFile(expandPath(path))
+      if (values) {
+        this.envFileValues = { ...this.envFileValues, ...values }
+      }
+    }
+    this.notifyChanges()
   }
 
   // --- Introspection ---
@@ -257,26 +732,52 @@ export class Viper<TSchema extends ZodType = ZodType> {
 
   allKeys(): string[] {
     const keySet = new Set<string>()
-    for (const k of flattenKeys(this.defaults)) keySet.add(k)
-    for (const k of flattenKeys(this.config)) keySet.add(k)
-    for (const k of flattenKeys(this.overrides)) keySet.add(k)
+    for (const layer of this.layerOrder) {
+      if (layer !== 'env') {
+        for (const k of flattenKeys(this.layerData(layer))) keySet.add(k)
+      }
+    }
     return [...keySet].sort()
   }
 
   allSettings(): TSchema extends ZodType ? Record<string, unknown> : Record<string, unknown> {
-    let merged = deepMerge({}, this.defaults)
-    merged = deepMerge(merged, this.config)
-    merged = deepMerge(merged, this.overrides)
-
-    // Apply env bindings on top
-    for (const key of flattenKeys(merged)) {
-      const envVal = resolveEnvKey(key, this.envPrefix, this.envBindings, this.autoEnv)
-      if (envVal !== undefined) {
-        deepSet(merged, splitKey(key, this.keyDelim), envVal)
+    const merged = this.layeredSettings(this.layerOrder)
+    return merged as TSchema extends ZodType ? Record<string, unknown> : Record<string, unknown>
+  }
+
+  /**
+   * Compare this instance's effective settings against `other`, the
+   * baseline: another instance, or a plain object such as an earlier
+   * `allSettings()`. Keys are flattened and sorted; arrays compare whole.
+   */
+  diff(other: Viper | Record<string, unknown>): ConfigDiff {
+    const base = other instanceof Viper ? other : undefined
+    const before = base ? base.allSettings() : lowercaseKeys(other as Record<string, unknown>)
+    const after = this.allSettings()
+    const beforeKeys = new Set(flattenKeys(before))
+    const afterKeys = new Set(flattenKeys(after))
+
+    const result: ConfigDiff = { added: [], removed: [], changed: [] }
+    for (const key of [...new Set([...beforeKeys, ...afterKeys])].sort()) {
+      const path = key.split('.')
+      const change: ConfigChange = { key }
+      if (beforeKeys.has(key)) {
+        change.oldValue = deepGet(before, path)
+        if (base)
+          change.oldLayer = base.layerOf(key, path)
       }
+      if (afterKeys.has(key)) {
+        change.newValue = deepGet(after, path)
+        change.newLayer = this.layerOf(key, path)
+      }
+      if (!beforeKeys.has(key))
+        result.added.push(change)
+      else if (!afterKeys.has(key))
+        result.removed.push(change)
+      else if (!isDeepEqual(change.oldValue, change.newValue))
+        result.changed.push(change)
     }
-
-    return merged as TSchema extends ZodType ? Record<string, unknown> : Record<string, unknown>
+    return result
   }
 
   // --- Alias ---
@@ -288,6 +789,7 @@ export class Viper<TSchema extends ZodType = ZodType> {
       throw new Error(`alias "${alias}" and key "${key}" are the same`)
     }
     this.aliases.set(la, lk)
+    this.notifyChanges()
   }
 
   // --- Sub-tree ---
@@ -317,20 +819,482 @@ export class Viper<TSchema extends ZodType = ZodType> {
     return current
   }
 
-  private resolveConfigFile(): string | undefined {
-    if (this.configFilePath)
-      return this.configFilePath
-    return findConfigFile(this.configName, this.configType, this.configPaths)
+  /** Main config files to read, farthest first, so the last one wins. */
+  private resolveConfigFiles(): string[] {
+    if (this.explicitConfigFiles.length > 0)
+      return this.existingConfigFiles(this.explicitConfigFiles.map(file => existsSync(file.path)))
+    const types = this.configType ?? this.codecs.extensions()
+    const search = this.upwardSearch
+    if (search) {
+      const dirs = ancestorDirs(search.from ?? process.cwd(), this.stopMarkers())
+      const found = search.mode === 'cascade'
+        ? dirs.map(dir => findConfigFile(this.configName, types, [dir], this.codecs))
+        : [findConfigFile(this.configName, types, dirs, this.codecs)]
+      const files = found.filter(file => file !== undefined).reverse()
+      if (files.length > 0)
+        return files
+    }
+    const file = findConfigFile(this.configName, types, this.configPaths, this.codecs)
+    return file ? [file] : []
+  }
+
+  private async resolveConfigFilesAsync(): Promise<string[]> {
+    if (this.explicitConfigFiles.length > 0) {
+      const exists = await Promise.all(this.explicitConfigFiles.map(
+        file => access(file.path).then(() => true, () => false),
+      ))
+      return this.existingConfigFiles(exists)
+    }
+    const types = this.configType ?? this.codecs.extensions()
+    const search = this.upwardSearch
+    if (search) {
+      const dirs = await ancestorDirsAsync(search.from ?? process.cwd(), this.stopMarkers())
+      const found = search.mode === 'cascade'
+        ? await Promise.all(dirs.map(dir => findConfigFileAsync(this.configName, types, [dir], this.codecs)))
+        : [await findConfigFileAsync(this.configName, types, dirs, this.codecs)]
+      const files = found.filter(file => file !== undefined).reverse()
+      if (files.length > 0)
+        return files
+    }
+    const file = await findConfigFileAsync(this.configName, types, this.configPaths, this.codecs)
+    return file ? [file] : []
+  }
+
+  /** Interleave each main file with its profile overlay. */
+  private withOverlays(files: string[]): string[] {
+    const profile = this.activeProfile()
+    if (!profile)
+      return files
+    const types = this.configType ?? this.codecs.extensions()
+    return files.flatMap((file) => {
+      const name = `${basename(file, extname(file))}.${profile}`
+      const overlay = findConfigFile(name, types, [dirname(file)], this.codecs)
+      return overlay ? [file, overlay] : [file]
+    })
   }
 
-  private async writeConfigTo(path: string): Promise<void> {
+  private async withOverlaysAsync(files: string[]): Promise<string[]> {
+    const profile = this.activeProfile()
+    if (!profile)
+      return files
+    const types = this.configType ?? this.codecs.extensions()
+    const overlays = await Promise.all(files.map(file => findConfigFileAsync(
+      `${basename(file, extname(file))}.${profile}`,
+      types,
+      [dirname(file)],
+      this.codecs,
+    )))
+    return files.flatMap((file, i) => overlays[i] ? [file, overlays[i]] : [file])
+  }
+
+  /** The value `get` returns, with sections merged across layers as in `allSettings`. */
+  private effectiveValue(key: string, settings: Record<string, unknown>): unknown {
+    const realKey = this.resolveAlias(key.toLowerCase())
+    const section = deepGet(settings, splitKey(realKey, this.keyDelim))
+    // Detach from the layers so later in-place writes show up as changes
+    return copyTree(isPlainObject(section) ? section : this.get(key))
+  }
+
+  /**
+   * Call the listeners of keys whose effective value changed. Every listener
+   * runs; errors go to `onError`, or are thrown once all have run.
+   */
+  private notifyChanges(onError?: (error: unknown) => void): void {
+    if (this.subscriptions.size === 0)
+      return
     const settings = this.allSettings()
+    const changes: Array<[KeySubscription, unknown, unknown]> = []
+    for (const subscription of this.subscriptions) {
+      const next = this.effectiveValue(subscription.key, settings)
+      if (!isDeepEqual(next, subscription.value)) {
+        changes.push([subscription, next, subscription.value])
+        subscription.value = next
+      }
+    }
+    // Listeners run after every snapshot is updated, so they see a consistent state
+    const errors: unknown[] = []
+    for (const [subscription, next, prev] of changes) {
+      try {
+        subscription.listener(next, prev)
+      }
+      catch (err) {
+        if (onError)
+          onError(err)
+        else
+          errors.push(err)
+      }
+    }
+    if (errors.length === 1)
+      throw errors[0]
+    if (errors.length > 1)
+      throw new AggregateError(errors, 'change listeners failed')
+  }
+
+  private emitReloadError(event: ReloadErrorEvent): void {
+    for (const listener of this.reloadErrorListeners) {
+      try {
+        listener(event)
+      }
+      catch {
+        // Nowhere left to report it; keep notifying the other listeners
+      }
+    }
+  }
+
+  /** Watch the directories of the files read, plus drop-in directories. */
+  private watchFilters(): WatchFilters {
+    const names: Map<string, Set<string>> = new Map()
+    const files = [...this.configFilesRead, ...this.explicitConfigFiles.map(file => file.path)]
+    for (const file of files) {
+      const dir = resolve(dirname(file))
+      names.set(dir, (names.get(dir) ?? new Set()).add(basename(file)))
+    }
+    const filters: WatchFilters = new Map()
+    for (const [dir, set] of names) filters.set(dir, filename => set.has(filename))
+    const types = this.fragmentTypes()
+    for (const dir of this.configDirs) {
+      const own = filters.get(resolve(dir))
+      filters.set(resolve(dir), filename => own?.(filename)
+        || (!filename.startsWith('.') && types.includes(extname(filename).slice(1).toLowerCase())))
+    }
+    return filters
+  }
+
+  /** Explicit files that exist; throws for a missing required file. */
+  private existingConfigFiles(exists: boolean[]): string[] {
+    return this.explicitConfigFiles.flatMap((file, i) => {
+      if (exists[i])
+        return [file.path]
+      if (file.optional)
+        return []
+      throw new Error(`config file not found: ${file.path}`)
+    })
+  }
+
+  private stopMarkers(): string[] {
+    const stopAt = this.upwardSearch?.stopAt ?? []
+    return Array.isArray(stopAt) ? stopAt : [stopAt]
+  }
+
+  private configSearchName(): string {
+    const type = this.configType ?? `{${this.codecs.extensions().join(',')}}`
+    return `${this.configName}.${type}`
+  }
+
+  /**
+   * Run async loads one at a time in call order, so overlapping reloads
+   * apply deterministically and the last one called wins.
+   */
+  private enqueueLoad(task: () => Promise<void>): Promise<void> {
+    const run = this.loadQueue.then(task)
+    this.loadQueue = run.catch(() => {})
+    return run
+  }
+
+  private async loadConfigFileAsync(merge: boolean): Promise<void> {
+    const { files, parts } = await this.readConfigFilesAsync()
+    this.loadConfig(parts, merge, files.at(-1))
+  }
+
+  /** Main config files found, and the parts read from them and their fragments. */
+  private async readConfigFilesAsync(): Promise<{ files: string[], parts: ConfigPart[] }> {
+    const files = await this.resolveConfigFilesAsync()
+    const fragments: string[] = []
+    for (const dir of this.configDirs) {
+      fragments.push(...await findConfigFragmentsAsync(dir, this.fragmentTypes()))
+    }
+    this.requireConfigFiles(files, fragments)
+    const type = this.configType ?? 'json5'
+    const trees = await Promise.all([...await this.withOverlaysAsync(files), ...fragments].map(
+      path => readConfigTreeAsync(path, type, this.codecs),
+    ))
+    return { files, parts: trees.flat() }
+  }
+
+  private async fetchRemote(): Promise<Record<string, unknown>> {
+    const docs = await Promise.all(this.remoteProviders.map(async ({ provider, path, type, timeout }) => {
+      const format = type ?? this.codecs.typeFor(path, this.configType ?? 'json5')
+      return readConfigSource(await fetchWithTimeout(provider, path, timeout), format, this.codecs)
+    }))
+    return docs.reduce<Record<string, unknown>>((merged, doc) => this.merge(merged, lowercaseKeys(doc)), {})
+  }
+
+  /** Validate the effective settings as they would be with these layers in place. */
+  private validateEffective(next: Partial<Record<ConfigLayer, Record<string, unknown>>>): void {
+    if (!this.schema)
+      return
+    const layers = Object.keys(next)
+    const previous = layers.map(layer => this.editableLayer(layer))
+    for (const layer of layers) this.replaceLayer(layer, next[layer]!)
+    try {
+      this.schema.parse(this.allSettings())
+    }
+    finally {
+      layers.forEach((layer, i) => this.replaceLayer(layer, previous[i]))
+    }
+  }
+
+  /** Read the main config files, then drop-in fragments, and load them. */
+  private loadConfigFiles(merge: boolean): void {
+    const files = this.resolveConfigFiles()
+    const fragments = this.configDirs.flatMap(dir => findConfigFragments(dir, this.fragmentTypes()))
+    this.requireConfigFiles(files, fragments)
+    const type = this.configType ?? 'json5'
+    const parts = [...this.withOverlays(files), ...fragments].flatMap(
+      path => readConfigTree(path, type, this.codecs),
+    )
+    this.loadConfig(parts, merge, files.at(-1))
+  }
+
+  private requireConfigFiles(files: string[], fragments: string[]): void {
+    if (files.length === 0 && fragments.length === 0) {
+      throw this.configNotFound()
+    }
+  }
+
+  private fragmentTypes(): string[] {
+    return this.configType ? [this.configType] : this.codecs.extensions()
+  }
+
+  private configNotFound(): Error {
+    if (this.explicitConfigFiles.length > 0) {
+      const paths = this.explicitConfigFiles.map(file => file.path)
+      return new Error(`config file not found: none of the optional files exist [${paths.join(', ')}]`)
+    }
+    const searched = this.upwardSearch
+      ? [`${this.upwardSearch.from ?? process.cwd()} and its parents`, ...this.configPaths]
+      : this.configPaths
+    return new Error(
+      `config file not found: searched for "${this.configSearchName()}" in [${searched.join(', ')}]`,
+    )
+  }
+
+  /** Merge parts in order, validate the result once, then commit it. */
+  private loadConfig(parts: ConfigPart[], merge: boolean, mainFile?: string): void {
+    this.commitConfig(this.prepareConfig(parts, merge), mainFile)
+    this.notifyChanges()
+  }
+
+  private prepareConfig(parts: ConfigPart[], merge: boolean): PreparedConfig {
+    const files = parts.flatMap(part => part.origin ? [part.origin] : [])
+    const directiveFiles = parts.flatMap(part => part.origin && part.directives ? [resolve(part.origin)] : [])
+    let next = merge ? this.config : {}
+    const origins = merge ? new Map(this.configOrigins) : new Map<string, string>()
+    for (const part of parts) {
+      const lc = lowercaseKeys(part.data)
+      next = this.merge(next, lc)
+      this.trackOrigins(origins, lc, part.origin)
+    }
+
+    if (this.schema) {
+      this.schema.parse(next)
+    }
+
+    this.pruneOrigins(origins, next)
+    return {
+      data: next,
+      origins,
+      files: [...new Set(merge ? [...this.configFilesRead, ...files] : files)],
+      directiveFiles: [...new Set(merge ? [...this.directiveFiles, ...directiveFiles] : directiveFiles)],
+    }
+  }
+
+  /** Put prepared config in place; the caller notifies subscribers. */
+  private commitConfig(prepared: PreparedConfig, mainFile?: string): void {
+    this.configFilePath = mainFile ?? this.configFilePath
+    this.config = prepared.data
+    this.configOrigins = prepared.origins
+    this.configFilesRead = prepared.files
+    this.directiveFiles = prepared.directiveFiles
+    this.lastGoodAt = new Date()
+  }
+
+  /** Forget keys that were deleted or replaced by a different shape. */
+  private pruneOrigins(origins: Map<string, string>, config: Record<string, unknown>): void {
+    const live = new Set(flattenKeys(config))
+    for (const key of [...origins.keys()]) {
+      if (!live.has(key))
+        origins.delete(key)
+    }
+  }
+
+  private trackOrigins(origins: Map<string, string>, data: Record<string, unknown>, origin?: string): void {
+    for (const key of flattenKeys(data)) {
+      for (const known of [...origins.keys()]) {
+        if (known.startsWith(`${key}.`))
+          origins.delete(known)
+      }
+      if (origin)
+        origins.set(key, origin)
+      else
+        origins.delete(key)
+    }
+  }
+
+  private commitPatch(layer: ConfigLayer, data: Record<string, unknown>): void {
+    this.validateEffective({ [layer]: data })
+    this.replaceLayer(layer, data)
+    if (layer === 'config')
+      this.pruneOrigins(this.configOrigins, data)
+    this.notifyChanges()
+  }
+
+  /** The stored settings of a layer that can be replaced wholesale. */
+  private editableLayer(layer: ConfigLayer): Record<string, unknown> {
+    switch (layer as BuiltinLayer) {
+      case 'defaults': return this.defaults
+      case 'remote': return this.remote
+      case 'config': return this.config
+      case 'overrides': return this.overrides
+      case 'env':
+      case 'flags':
+        throw new Error(`config layer cannot be edited: ${layer}`)
+      default:
+        this.layerIndex(layer)
+        return this.customLayers.get(layer)!
+    }
+  }
+
+  private replaceLayer(layer: ConfigLayer, data: Record<string, unknown>): void {
+    switch (layer as BuiltinLayer) {
+      case 'defaults':
+        this.defaults = data
+        break
+      case 'remote':
+        this.remote = data
+        break
+      case 'config':
+        this.config = data
+        break
+      case 'overrides':
+        this.overrides = data
+        break
+      default:
+        this.editableLayer(layer)
+        this.customLayers.set(layer, data)
+    }
+  }
+
+  /** The env vars to read: `process.env`, or the snapshot, taken on first use. */
+  private env(): NodeJS.ProcessEnv {
+    if (!this.snapshotEnv)
+      return process.env
+    this.envSnapshot ??= { ...process.env }
+    return this.envSnapshot
+  }
+
+  private layerIndex(name: ConfigLayer): number {
+    const index = this.layerOrder.indexOf(name)
+    if (index === -1) {
+      throw new Error(`unknown config layer: ${name}`)
+    }
+    return index
+  }
 
+  /** The highest layer with a value for the flattened `key`. */
+  private layerOf(key: string, path: string[]): ConfigLayer | undefined {
+    return this.layers().find(layer => (layer === 'env'
+      ? resolveEnvKey(key, this.envPrefix, this.envBindings, this.autoEnv, this.envFileValues, this.env())
+      : deepGet(this.layerData(layer), path)) !== undefined)
+  }
+
+  private layerData(layer: Exclude<ConfigLayer, 'env'>): Record<string, unknown> {
+    switch (layer as BuiltinLayer) {
+      case 'defaults': return this.flagDefaults.size > 0
+        ? this.merge(this.flagSettings(this.flagDefaults), this.defaults)
+        : this.defaults
+      case 'remote': return this.remote
+      case 'config': return this.config
+      case 'flags': return this.flagSettings(this.flagValues)
+      case 'overrides': return this.overrides
+      default: return this.customLayers.get(layer) ?? {}
+    }
+  }
+
+  private flagSettings(flags: Map<string, unknown>): Record<string, unknown> {
+    const settings: Record<string, unknown> = {}
+    for (const [key, name] of this.flagBindings) {
+      if (flags.has(name))
+        deepSet(settings, splitKey(key, this.keyDelim), flags.get(name))
+    }
+    return settings
+  }
+
+  private merge(target: Record<string, unknown>, source: Record<string, unknown>): Record<string, unknown> {
+    return deepMerge(target, source, path => this.arrayStrategyFor(path))
+  }
+
+  private arrayStrategyFor(path: string[]): ArrayMergeStrategy {
+    return this.arrayStrategies.get(this.strategyKey(path)) ?? this.arrayStrategy
+  }
+
+  private strategyKey(path: string[]): string {
+    return path.join('\0')
+  }
+
+  /** Merge arrays found for one key, given highest precedence first. */
+  private foldArrays(arrays: unknown[], path: string[]): unknown[] {
+    return (arrays as unknown[][]).reduceRight(
+      (merged, array) => mergeArrays(merged, array, p => this.arrayStrategyFor(p), path),
+    )
+  }
+
+  /** Merge the given layers in precedence order. */
+  private layeredSettings(layers: ConfigLayer[]): Record<string, unknown> {
+    // Reject unknown layer names
+    for (const layer of layers) this.layerIndex(layer)
+    let merged: Record<string, unknown> = {}
+    for (const layer of this.layerOrder) {
+      if (!layers.includes(layer))
+        continue
+      if (layer !== 'env') {
+        merged = this.merge(merged, this.layerData(layer))
+        continue
+      }
+      // Env only supplies values for keys known to some layer
+      for (const key of this.allKeys()) {
+        const envVal = resolveEnvKey(key, this.envPrefix, this.envBindings, this.autoEnv, this.envFileValues, this.env())
+        if (envVal !== undefined) {
+          deepSet(merged, splitKey(key, this.keyDelim), envVal)
+        }
+      }
+    }
+    return merged
+  }
+
+  /**
+   * The file `writeConfig` writes back to. A config layer merged from several
+   * files (profile overlays, drop-ins, multiple config files) has no single
+   * file to hold it, so the caller must pick one with `writeConfigAs`.
+   */
+  private writeTarget(): string {
+    const file = this.configFilePath
+    if (!file) {
+      throw new Error('no config file set or discovered; call readInConfig() or setConfigFile() first')
+    }
+    if (this.configFilesRead.length > 1) {
+      throw new Error(`config was merged from several files (${this.configFilesRead.join(', ')}); use writeConfigAs() to choose the target`)
+    }
+    return file
+  }
+
+  private async writeConfigTo(path: string, options?: WriteOptions): Promise<void> {
+    if (this.directiveFiles.includes(resolve(path))) {
+      throw new Error(`config file uses $extends or $include and would lose them if rewritten: ${path}`)
+    }
+    // Validate the effective config even when only some layers are written
     if (this.schema) {
-      this.schema.parse(settings)
+      this.schema.parse(this.allSettings())
+    }
+
+    let settings = options?.layers
+      ? this.layeredSettings(options.layers)
+      : this.allSettings()
+    if (options?.omitDefaults) {
+      settings = omitEqual(settings, this.layerData('defaults'))
     }
 
-    const content = json5.stringify(settings, null, 2).trimEnd().concat('\n')
+    const content = renderConfigFile(path, settings, this.codecs.typeFor(path, this.configType ?? 'json5'), this.codecs)
     await atomicWriteFile(path, content)
   }
 }
@@ -0,0 +1,64 @@
+import type { FSWatcher } from 'node:fs'
+import { existsSync, watch } from 'node:fs'
+
+/** Directory → predicate selecting the file names whose events matter. */
+export type WatchFilters = Map<string, (filename: string) => boolean>
+
+/**
+ * Watches directories rather than files, so editors and `atomicWriteFile`
+ * replacing a file by rename keep being seen. Bursts of events are debounced
+ * into a single `onChange` call.
+ */
+export class DirectoryWatcher {
+  private watchers: Map<string, FSWatcher> = new Map()
+  private filters: WatchFilters = new Map()
+  private timer?: ReturnType<typeof setTimeout>
+  private onChange: () => void
+  private debounce: number
+  private onError?: (error: unknown) => void
+  closed = false
+
+  constructor(onChange: () => void, debounce: number, onError?: (error: unknown) => void) {
+    this.onChange = onChange
+    this.debounce = debounce
+    this.onError = onError
+  }
+
+  /** Watch exactly the directories in `filters`; missing directories are skipped. */
+  update(filters: WatchFilters): void {
+    if (this.closed)
+      return
+    this.filters = filters
+    for (const [dir, watcher] of this.watchers) {
+      if (!filters.has(dir)) {
+        watcher.close()
+        this.watchers.delete(dir)
+      }
+    }
+    for (const dir of filters.keys()) {
+      if (this.watchers.has(dir) || !existsSync(dir))
+        continue
+      const watcher = watch(dir, (_event, filename) => this.handle(dir, filename))
+      watcher.on('error', err => this.onError?.(err))
+      // Watching alone shouldn't keep the process alive
+      watcher.unref()
+      this.watchers.set(dir, watcher)
+    }
+  }
+
+  close(): void {
+    this.closed = true
+    clearTimeout(this.timer)
+    for (const watcher of this.watchers.values()) watcher.close()
+    this.watchers.clear()
+  }
+
+  private handle(dir: string, filename: string | null): void {
+    const filter = this.filters.get(dir)
+    // Some platforms omit the file name; treat that as relevant
+    if (this.closed || !filter || (filename && !filter(filename)))
+      return
+    clearTimeout(this.timer)
+    this.timer = setTimeout(() => this.onChange(), this.debounce)
+  }
+}